@@ -126,7 +126,8 @@ export class DocumentAPI {
   }
 
   /**
-   * Set page configuration (size, margins).
+   * Set page configuration (size, orientation, margins, …), e.g.
+   * `setPageConfig({ orientation: 'landscape' })`.
    * Triggers re-pagination.
    */
   setPageConfig(config: Partial<PageConfig>): void {
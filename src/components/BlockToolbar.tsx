@@ -1,7 +1,8 @@
 // ============================================================
 // BlockToolbar — Hover controls for individual content blocks
 // ============================================================
-// Shows add / edit-HTML / delete actions when a block is hovered.
+// Shows add / edit-HTML / delete actions when a block is hovered,
+// plus "keep together" / "keep with next" pagination toggles.
 // Positioned absolutely in the left margin of the block.
 // ============================================================
 
@@ -16,6 +17,14 @@ interface BlockToolbarProps {
   onEditHTML: () => void;
   /** Delete this block */
   onDelete: () => void;
+  /** Whether the block must not be split across pages */
+  keepTogether: boolean;
+  /** Whether the block stays on the same page as the next block */
+  keepWithNext: boolean;
+  /** Toggle `break-inside: avoid` on this block */
+  onToggleKeepTogether: () => void;
+  /** Toggle `break-after: avoid` on this block */
+  onToggleKeepWithNext: () => void;
 }
 
 export const BlockToolbar: React.FC<BlockToolbarProps> = ({
@@ -23,6 +32,10 @@ export const BlockToolbar: React.FC<BlockToolbarProps> = ({
   onAddBelow,
   onEditHTML,
   onDelete,
+  keepTogether,
+  keepWithNext,
+  onToggleKeepTogether,
+  onToggleKeepWithNext,
 }) => (
   <div
     className="dopecanvas-block-toolbar"
@@ -38,6 +51,12 @@ export const BlockToolbar: React.FC<BlockToolbarProps> = ({
     <Btn onClick={onEditHTML} title="Edit HTML">
       <CodeIcon />
     </Btn>
+    <Btn onClick={onToggleKeepTogether} title="Keep together" active={keepTogether}>
+      <KeepTogetherIcon />
+    </Btn>
+    <Btn onClick={onToggleKeepWithNext} title="Keep with next" active={keepWithNext}>
+      <KeepWithNextIcon />
+    </Btn>
     <Btn onClick={onDelete} title="Delete block" danger>
       <TrashIcon />
     </Btn>
@@ -62,6 +81,23 @@ const CodeIcon = () => (
   </svg>
 );
 
+const KeepTogetherIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="2.5" y="2" width="9" height="10" rx="1" />
+    <line x1="5" y1="5" x2="9" y2="5" />
+    <line x1="5" y1="7" x2="9" y2="7" />
+    <line x1="5" y1="9" x2="9" y2="9" />
+  </svg>
+);
+
+const KeepWithNextIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="2.5" y="1.5" width="9" height="4" rx="1" />
+    <rect x="2.5" y="8.5" width="9" height="4" rx="1" />
+    <line x1="7" y1="5.5" x2="7" y2="8.5" />
+  </svg>
+);
+
 const TrashIcon = () => (
   <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
     <path d="M2.5 4h9M5 4V2.5h4V4M3.5 4l.5 8h6l.5-8" />
@@ -77,12 +113,15 @@ const Btn: React.FC<{
   title: string;
   children: React.ReactNode;
   danger?: boolean;
-}> = ({ onClick, title, children, danger }) => {
+  /** Render as a pressed toggle */
+  active?: boolean;
+}> = ({ onClick, title, children, danger, active }) => {
   const [hovered, setHovered] = useState(false);
   return (
     <button
       onClick={onClick}
       title={title}
+      aria-pressed={active}
       onMouseEnter={() => setHovered(true)}
       onMouseLeave={() => setHovered(false)}
       style={{
@@ -91,8 +130,10 @@ const Btn: React.FC<{
           ? danger
             ? '#fff0f0'
             : '#f0f0f0'
-          : 'transparent',
-        color: hovered && danger ? '#d32f2f' : '#666',
+          : active
+            ? '#e8f0fe'
+            : 'transparent',
+        color: hovered && danger ? '#d32f2f' : active ? '#1a73e8' : '#666',
       }}
     >
       {children}
@@ -0,0 +1,76 @@
+import { createRef } from 'react';
+import { render, waitFor, cleanup } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DopeCanvas } from './DopeCanvas';
+import { DeterministicBlockMeasurer } from '../core/BlockMeasurer';
+import { BLOCK_RELOCATE_EVENT } from '../core/BlockNodes';
+import type { DopeCanvasHandle } from './DopeCanvas';
+import type { PageConfig } from '../core/types';
+
+afterEach(() => {
+  cleanup();
+});
+
+describe('DopeCanvas block nodes', () => {
+  const html =
+    '<div id="widget"><script>window.widgetRuns = (window.widgetRuns || 0) + 1;</script></div>' +
+    Array.from({ length: 8 }, (_, i) => `<p>Paragraph ${i + 1}</p>`).join('');
+  const pageConfig = (height: number): PageConfig => ({
+    size: { width: 300, height },
+    margins: { top: 0, right: 0, bottom: 0, left: 0 },
+  });
+
+  it('moves blocks to their new pages without re-creating them or re-running scripts', async () => {
+    const ref = createRef<DopeCanvasHandle>();
+    const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2 });
+    const { container, rerender } = render(
+      <DopeCanvas ref={ref} html={html} isolation="none" pageConfig={pageConfig(200)} measurer={measurer} />
+    );
+    await waitFor(() => expect(ref.current?.getPageCount()).toBe(2));
+
+    const paragraphs = () => Array.from(container.querySelectorAll('.dopecanvas-block-content p'));
+    const last = paragraphs()[7].parentElement!;
+    const onRelocate = vi.fn();
+    last.addEventListener(BLOCK_RELOCATE_EVENT, onRelocate);
+    // The script element was swapped for the one that ran
+    const script = container.querySelector('#widget script');
+
+    // Taller pages: the document fits on one page
+    rerender(
+      <DopeCanvas ref={ref} html={html} isolation="none" pageConfig={pageConfig(400)} measurer={measurer} />
+    );
+    await waitFor(() => expect(ref.current?.getPageCount()).toBe(1));
+
+    expect(paragraphs()[7].parentElement).toBe(last);
+    expect(onRelocate).toHaveBeenCalledTimes(1);
+    expect(container.querySelector('#widget script')).toBe(script);
+  });
+
+  it('keeps the parts of a split block across re-pagination without re-running their scripts', async () => {
+    const splitHTML =
+      '<div id="chart"><script>window.chartRuns = (window.chartRuns || 0) + 1;</script>' +
+      Array.from({ length: 10 }, (_, i) => `<p>Row ${i + 1}</p>`).join('') +
+      '</div><p>After</p>';
+    const ref = createRef<DopeCanvasHandle>();
+    const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2 });
+    const { container, rerender } = render(
+      <DopeCanvas ref={ref} html={splitHTML} isolation="none" pageConfig={pageConfig(200)} measurer={measurer} />
+    );
+    await waitFor(() => expect(container.querySelectorAll('#chart').length).toBe(2));
+
+    const parts = Array.from(container.querySelectorAll('#chart'));
+    const script = container.querySelector('#chart script');
+
+    // Slightly taller pages: the block splits at the same row, so only
+    // the layout around it changes
+    rerender(
+      <DopeCanvas ref={ref} html={splitHTML} isolation="none" pageConfig={pageConfig(210)} measurer={measurer} />
+    );
+    await waitFor(() =>
+      expect((container.querySelector('.dopecanvas-page') as HTMLElement | null)?.style.height).toBe('210px')
+    );
+
+    expect(Array.from(container.querySelectorAll('#chart'))).toEqual(parts);
+    expect(container.querySelector('#chart script')).toBe(script);
+  });
+});
@@ -2,6 +2,7 @@ import { createRef } from 'react';
 import { render, waitFor, cleanup } from '@testing-library/react';
 import { afterEach, describe, expect, it } from 'vitest';
 import { DopeCanvas } from './DopeCanvas';
+import { DeterministicBlockMeasurer } from '../core/BlockMeasurer';
 import type { DopeCanvasHandle } from './DopeCanvas';
 
 type Mode = 'page' | 'flow';
@@ -105,4 +106,14 @@ describe('DopeCanvas isolation', () => {
       expect(html).toContain('Fixture body copy.');
     }
   );
+
+  it('paginates with a deterministic measurer where nothing is laid out', async () => {
+    const ref = createRef<DopeCanvasHandle>();
+    const html = Array.from({ length: 40 }, (_, i) => `<p>Paragraph ${i + 1}</p>`).join('');
+    render(
+      <DopeCanvas ref={ref} html={html} measurer={new DeterministicBlockMeasurer()} />
+    );
+
+    await waitFor(() => expect(ref.current?.getPageCount()).toBe(3));
+  });
 });
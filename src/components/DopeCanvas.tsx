@@ -28,10 +28,14 @@ import { createPortal } from 'react-dom';
 import { PagedView } from './PagedView';
 import type { PagedViewHandle } from './PagedView';
 import { PageLayoutEngine } from '../core/PageLayoutEngine';
+import type { MeasurementCacheStats } from '../core/MeasurementCache';
 import { EditableManager } from '../core/EditableManager';
 import type {
   PageConfig,
   PaginationResult,
+  HistoryState,
+  BlockMeasurer,
+  Unsubscribe,
 } from '../core/types';
 import { DEFAULT_PAGE_CONFIG } from '../core/types';
 
@@ -51,7 +55,7 @@ export interface DopeCanvasHandle {
   // Page configuration
   /** Get the current page configuration */
   getPageConfig: () => PageConfig;
-  /** Update page configuration (size, margins). Triggers re-pagination. */
+  /** Update page configuration (size, orientation, margins, …). Triggers re-pagination. */
   setPageConfig: (config: Partial<PageConfig>) => void;
   /** Get the current number of pages */
   getPageCount: () => number;
@@ -67,6 +71,12 @@ export interface DopeCanvasHandle {
   undo: () => boolean;
   /** Redo the last undone edit. Returns false if nothing to redo. */
   redo: () => boolean;
+  /** Whether there is an edit to undo */
+  canUndo: () => boolean;
+  /** Whether there is an undone edit to redo */
+  canRedo: () => boolean;
+  /** Listen for canUndo / canRedo changes (e.g. to enable toolbar buttons) */
+  onHistoryChange: (callback: (state: HistoryState) => void) => Unsubscribe;
 
   // Page breaks
   /** Insert a page break after the block at the cursor (or at end) */
@@ -75,6 +85,12 @@ export interface DopeCanvasHandle {
   setShowPageBreaks: (show: boolean) => void;
   /** Get the current show-page-breaks state */
   getShowPageBreaks: () => boolean;
+
+  // Profiling
+  /** Block measurement cache hits / misses since the last reset */
+  getMeasurementStats: () => MeasurementCacheStats;
+  /** Reset the measurement cache hit / miss counters */
+  resetMeasurementStats: () => void;
 }
 
 // ----------------------------------------------------------
@@ -98,6 +114,12 @@ export interface DopeCanvasProps {
   onPageConfigChange?: (config: PageConfig) => void;
   /** Style overrides for the root container */
   style?: React.CSSProperties;
+  /**
+   * Layout backend used to paginate (read once, on mount). Defaults
+   * to the browser's layout; pass a DeterministicBlockMeasurer to
+   * paginate where nothing is rendered (jsdom, Node).
+   */
+  measurer?: BlockMeasurer;
 }
 
 const SHADOW_BASE_CSS = `
@@ -218,6 +240,7 @@ export const DopeCanvas = forwardRef<DopeCanvasHandle, DopeCanvasProps>(({
   onContentChange,
   onPageConfigChange,
   style,
+  measurer,
 }, ref) => {
   const [internalPageConfig, setInternalPageConfig] = useState<PageConfig>(
     externalPageConfig || DEFAULT_PAGE_CONFIG
@@ -260,8 +283,10 @@ export const DopeCanvas = forwardRef<DopeCanvasHandle, DopeCanvasProps>(({
     [css, effectiveIsolation]
   );
 
-  // Create engine instances (stable across renders)
-  const layoutEngine = useMemo(() => new PageLayoutEngine(pageConfig), []);
+  // Create engine instances (stable across renders). The layout engine
+  // is made once with the mount-time measurer; later pageConfig values
+  // reach it through setConfig.
+  const [layoutEngine] = useState(() => new PageLayoutEngine(pageConfig, measurer));
   const editableManager = useMemo(() => new EditableManager(), []);
 
   // Update layout engine when config changes
@@ -377,37 +402,12 @@ export const DopeCanvas = forwardRef<DopeCanvasHandle, DopeCanvasProps>(({
 
       // Read directly from the live DOM so edits are never missed
       // (the MutationObserver in PagedView debounces updates to the ref,
-      //  so the ref can be stale if getHTML is called right after an edit)
-      if (rootRef.current) {
-        const contentDivs = rootRef.current.querySelectorAll(
-          '.dopecanvas-block-content'
-        );
-        if (contentDivs.length > 0) {
-          const parts: string[] = [];
-          contentDivs.forEach((contentDiv) => {
-            const div = contentDiv as HTMLElement;
-            const children = div.children;
-            
-            if (children.length === 0) {
-              // Empty block - skip
-              return;
-            } else if (children.length === 1) {
-              // Single child - use its outerHTML (preserves original structure)
-              parts.push((children[0] as HTMLElement).outerHTML);
-            } else {
-              // Multiple children (user pressed Enter and created new lines)
-              // Wrap them in a div to keep as one block
-              const wrapper = document.createElement('div');
-              wrapper.innerHTML = div.innerHTML;
-              parts.push(wrapper.outerHTML);
-            }
-          });
-          if (parts.length > 0) {
-            const freshHTML = parts.join('\n');
-            currentHTMLRef.current = freshHTML; // keep ref in sync
-            return freshHTML;
-          }
-        }
+      //  so the ref can be stale if getHTML is called right after an edit).
+      // PagedView adds the saved HTML of pages not mounted.
+      const freshHTML = pagedViewRef.current?.getHTML();
+      if (freshHTML) {
+        currentHTMLRef.current = freshHTML; // keep ref in sync
+        return freshHTML;
       }
       return currentHTMLRef.current;
     },
@@ -421,33 +421,16 @@ export const DopeCanvas = forwardRef<DopeCanvasHandle, DopeCanvasProps>(({
       }
 
       // Also read from live DOM for consistency
-      const liveHTML = rootRef.current
-        ? (() => {
-            const divs = rootRef.current!.querySelectorAll('.dopecanvas-block-content');
-            const parts: string[] = [];
-            divs.forEach((contentDiv) => {
-              const div = contentDiv as HTMLElement;
-              const children = div.children;
-              
-              if (children.length === 0) {
-                return;
-              } else if (children.length === 1) {
-                parts.push((children[0] as HTMLElement).outerHTML);
-              } else {
-                const wrapper = document.createElement('div');
-                wrapper.innerHTML = div.innerHTML;
-                parts.push(wrapper.outerHTML);
-              }
-            });
-            return parts.length > 0 ? parts.join('\n') : currentHTMLRef.current;
-          })()
-        : currentHTMLRef.current;
+      const liveHTML = pagedViewRef.current?.getHTML() || currentHTMLRef.current;
       const tmp = document.createElement('div');
       tmp.innerHTML = liveHTML;
       return tmp.innerText || tmp.textContent || '';
     },
     undo: () => editableManager.undo(),
     redo: () => editableManager.redo(),
+    canUndo: () => editableManager.canUndo(),
+    canRedo: () => editableManager.canRedo(),
+    onHistoryChange: (callback) => editableManager.onHistoryChange(callback),
     insertPageBreak: () => {
       if (effectiveRenderMode === 'flow' && flowContentRef.current) {
         const sel = window.getSelection();
@@ -472,7 +455,9 @@ export const DopeCanvas = forwardRef<DopeCanvasHandle, DopeCanvasProps>(({
       setShowPageBreaks(show);
     },
     getShowPageBreaks: () => showPageBreaks,
-  }), [editableManager, pageConfig, paginationResult.pageCount, handlePageConfigChange, showPageBreaks, effectiveRenderMode]);
+    getMeasurementStats: () => layoutEngine.getMeasurementCache().getStats(),
+    resetMeasurementStats: () => layoutEngine.getMeasurementCache().resetStats(),
+  }), [editableManager, pageConfig, paginationResult.pageCount, handlePageConfigChange, showPageBreaks, effectiveRenderMode, layoutEngine]);
 
   const canvasBody = (
     <div
@@ -500,6 +485,7 @@ export const DopeCanvas = forwardRef<DopeCanvasHandle, DopeCanvasProps>(({
           editableManager={editableManager}
           onContentChange={handleContentChange}
           onPaginationChange={handlePaginationChange}
+          onPageConfigChange={handlePageConfigChange}
           showPageBreaks={showPageBreaks}
         />
       ) : (
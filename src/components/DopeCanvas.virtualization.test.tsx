@@ -0,0 +1,137 @@
+import { createRef } from 'react';
+import { act, render, waitFor, cleanup } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DopeCanvas } from './DopeCanvas';
+import { DeterministicBlockMeasurer } from '../core/BlockMeasurer';
+import type { DopeCanvasHandle } from './DopeCanvas';
+
+/** IntersectionObserver stand-in: tests decide which pages are in view */
+class FakeIntersectionObserver {
+  static current: FakeIntersectionObserver | null = null;
+  private callback: IntersectionObserverCallback;
+  private targets: Element[] = [];
+
+  constructor(callback: IntersectionObserverCallback) {
+    this.callback = callback;
+    FakeIntersectionObserver.current = this;
+  }
+
+  observe(target: Element) {
+    this.targets.push(target);
+  }
+
+  disconnect() {
+    this.targets = [];
+  }
+
+  /** Report the pages at these positions as the only ones in view */
+  show(pageIndices: number[]) {
+    const entries = this.targets.map((target) => ({
+      target,
+      isIntersecting: pageIndices.includes(Number(target.getAttribute('data-dopecanvas-page'))),
+    }));
+    this.callback(entries as IntersectionObserverEntry[], this as unknown as IntersectionObserver);
+  }
+}
+
+beforeEach(() => {
+  vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+describe('DopeCanvas virtualized pages', () => {
+  // Five paragraphs per 200px page: 100 paragraphs make 20 pages
+  const html = Array.from({ length: 100 }, (_, i) => `<p>Paragraph ${i + 1}</p>`).join('');
+
+  async function renderLongDocument() {
+    const ref = createRef<DopeCanvasHandle>();
+    const { container } = render(
+      <DopeCanvas
+        ref={ref}
+        html={html}
+        isolation="none"
+        pageConfig={{
+          size: { width: 300, height: 200 },
+          margins: { top: 0, right: 0, bottom: 0, left: 0 },
+        }}
+        measurer={new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2 })}
+      />
+    );
+    await waitFor(() => expect(ref.current?.getPageCount()).toBe(20));
+    return { ref, container };
+  }
+
+  const mountedPages = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll('[data-dopecanvas-page]:not([data-dopecanvas-placeholder])'))
+      .map((page) => Number(page.getAttribute('data-dopecanvas-page')));
+
+  it('mounts only the pages near the viewport', async () => {
+    const { ref, container } = await renderLongDocument();
+
+    expect(container.querySelectorAll('.dopecanvas-page')).toHaveLength(20);
+    expect(mountedPages(container)).toEqual([0, 1, 2, 3]);
+
+    act(() => FakeIntersectionObserver.current!.show([10, 11]));
+    expect(mountedPages(container)).toEqual([8, 9, 10, 11, 12, 13]);
+    expect(container.textContent).toContain('Paragraph 51');
+    expect(container.textContent).not.toContain('Paragraph 2Paragraph 3');
+
+    // The document is still read whole
+    const saved = ref.current!.getHTML();
+    expect(saved).toContain('Paragraph 1<');
+    expect(saved).toContain('Paragraph 100<');
+  });
+
+  it('numbers footnote markers on from the pages scrolled past', async () => {
+    // One note per paragraph: five notes per page
+    const withNotes = Array.from(
+      { length: 50 },
+      (_, i) => `<p>Paragraph ${i + 1}<span data-dopecanvas-footnote>Note ${i + 1}</span></p>`
+    ).join('');
+    const ref = createRef<DopeCanvasHandle>();
+    const { container } = render(
+      <DopeCanvas
+        ref={ref}
+        html={withNotes}
+        isolation="none"
+        pageConfig={{
+          size: { width: 300, height: 400 },
+          margins: { top: 0, right: 0, bottom: 0, left: 0 },
+        }}
+        measurer={new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2 })}
+      />
+    );
+    await waitFor(() => expect(ref.current?.getPageCount()).toBeGreaterThan(8));
+
+    act(() => FakeIntersectionObserver.current!.show([6]));
+    const page = container.querySelector('[data-dopecanvas-page="6"]') as HTMLElement;
+    expect(page.hasAttribute('data-dopecanvas-placeholder')).toBe(false);
+
+    // The page's markers count on from the notes of the unmounted pages
+    const firstNote = page.querySelector('.dopecanvas-footnote')!.textContent!;
+    const firstNumber = Number(/\d+/.exec(firstNote)![0]);
+    expect(firstNumber).toBeGreaterThan(1);
+    expect(page.style.counterReset).toBe(`dopecanvas-footnote ${firstNumber - 1}`);
+  });
+
+  it('keeps edits of pages that scroll out of view and back', async () => {
+    const { ref, container } = await renderLongDocument();
+
+    const first = container.querySelector('.dopecanvas-block-content p')!;
+    first.textContent = 'Edited first paragraph';
+
+    act(() => FakeIntersectionObserver.current!.show([15]));
+    expect(mountedPages(container)).not.toContain(0);
+    expect(ref.current!.getHTML()).toContain('Edited first paragraph');
+
+    act(() => FakeIntersectionObserver.current!.show([0]));
+    expect(mountedPages(container)).toContain(0);
+    expect(container.querySelector('.dopecanvas-block-content p')!.textContent).toBe(
+      'Edited first paragraph'
+    );
+  });
+});
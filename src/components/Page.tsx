@@ -1,52 +1,142 @@
 // ============================================================
 // Page — Single page frame component
 // ============================================================
-// Renders a fixed-size white page with margins and page number.
+// Renders a fixed-size white page with margins, the running header
+// and footer variant for its page number (editable in place), the
+// footnotes referenced on the page, and — when no footer is set —
+// a plain page number.
+//
+// A placeholder page is the empty frame alone: PagedView renders
+// off-screen pages of long documents this way (same size, so the
+// scroll height is unchanged) and mounts their content when they
+// come near the viewport.
 // ============================================================
 
 import React from 'react';
-import type { PageDimensions, PageMargins } from '../core/types';
+import type { PageConfig, PageDimensions, PageMargins } from '../core/types';
+import type {
+  HeaderFooterFields,
+  HeaderFooterKey,
+  HeaderFooterOptions,
+} from '../core/HeaderFooter';
+import {
+  expandFieldCodes,
+  collapseFieldCodes,
+  selectHeaderFooter,
+  HEADER_FOOTER_STYLE,
+} from '../core/HeaderFooter';
+import type { Footnote } from '../core/Footnotes';
+import { FOOTNOTE_COUNTER, FOOTNOTE_STYLE } from '../core/Footnotes';
 
 interface PageProps {
   /** Page dimensions in pixels */
   dimensions: PageDimensions;
   /** Page margins in pixels */
   margins: PageMargins;
-  /** Page number (1-indexed) */
+  /** Page number (1-indexed; restarts per section when configured) */
   pageNumber: number;
+  /** First page of the document or of its section (default: page 1) */
+  firstInSection?: boolean;
   /** Total number of pages */
   totalPages: number;
+  /** Header / footer templates and variant options (field codes unexpanded) */
+  headerFooter?: HeaderFooterOptions;
+  /** Space reserved inside the margins for this page's header / footer, in pixels */
+  headerFooterSpace?: { header: number; footer: number };
+  /** Footnotes referenced on this page, listed above the footer */
+  footnotes?: Footnote[];
+  /**
+   * Notes referenced before this page: its markers count on from
+   * here, so they match the notes even when earlier pages aren't mounted
+   */
+  footnotesBefore?: number;
+  /** Values for the {title}, {date} and {section} field codes */
+  fields?: Pick<HeaderFooterFields, 'title' | 'date' | 'section'>;
+  /** Called with the edited template after a header / footer is edited in place */
+  onHeaderFooterChange?: (change: Partial<PageConfig>) => void;
+  /** Position of the page in the view (`data-dopecanvas-page`) */
+  pageIndex?: number;
+  /** Render the empty frame only (content not mounted) */
+  placeholder?: boolean;
   /** The content blocks to render inside the page */
-  children: React.ReactNode;
+  children?: React.ReactNode;
 }
 
 export const Page: React.FC<PageProps> = ({
   dimensions,
   margins,
   pageNumber,
+  firstInSection = pageNumber === 1,
   totalPages,
+  headerFooter = {},
+  headerFooterSpace = { header: 0, footer: 0 },
+  footnotes = [],
+  footnotesBefore = 0,
+  fields = { title: '', date: '', section: '' },
+  onHeaderFooterChange,
+  pageIndex,
+  placeholder = false,
   children,
 }) => {
+  const frameStyle: React.CSSProperties = {
+    width: `${dimensions.width}px`,
+    height: `${dimensions.height}px`,
+    backgroundColor: '#ffffff',
+    boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15), 0 0 1px rgba(0, 0, 0, 0.1)',
+    position: 'relative',
+    overflow: 'hidden',
+    flexShrink: 0,
+  };
+
+  if (placeholder) {
+    return (
+      <div
+        className="dopecanvas-page"
+        data-dopecanvas-page={pageIndex}
+        data-dopecanvas-placeholder=""
+        style={frameStyle}
+      />
+    );
+  }
+
+  const { header, footer, headerKey, footerKey } = selectHeaderFooter(
+    headerFooter,
+    pageNumber,
+    firstInSection
+  );
+  const pageFields: HeaderFooterFields = {
+    ...fields,
+    page: pageNumber,
+    pages: totalPages,
+  };
+  const editHandler = onHeaderFooterChange
+    ? (key: HeaderFooterKey) => (template: string) => onHeaderFooterChange({ [key]: template })
+    : () => undefined;
+
   return (
     <div
       className="dopecanvas-page"
-      style={{
-        width: `${dimensions.width}px`,
-        height: `${dimensions.height}px`,
-        backgroundColor: '#ffffff',
-        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15), 0 0 1px rgba(0, 0, 0, 0.1)',
-        position: 'relative',
-        overflow: 'hidden',
-        flexShrink: 0,
-      }}
+      data-dopecanvas-page={pageIndex}
+      style={{ ...frameStyle, counterReset: `${FOOTNOTE_COUNTER} ${footnotesBefore}` }}
     >
-      {/* Content area with margins */}
+      {/* Running header */}
+      {header && (
+        <RunningText
+          className="dopecanvas-page-header"
+          template={header}
+          fields={pageFields}
+          onChange={editHandler(headerKey)}
+          style={{ top: `${margins.top}px`, left: `${margins.left}px`, right: `${margins.right}px` }}
+        />
+      )}
+
+      {/* Content area with margins (and header / footer space) */}
       <div
         className="dopecanvas-page-content"
         style={{
-          paddingTop: `${margins.top}px`,
+          paddingTop: `${margins.top + headerFooterSpace.header}px`,
           paddingRight: `${margins.right}px`,
-          paddingBottom: `${margins.bottom}px`,
+          paddingBottom: `${margins.bottom + headerFooterSpace.footer}px`,
           paddingLeft: `${margins.left}px`,
           height: '100%',
           boxSizing: 'border-box',
@@ -56,24 +146,106 @@ export const Page: React.FC<PageProps> = ({
         {children}
       </div>
 
-      {/* Page number footer */}
-      <div
-        className="dopecanvas-page-number"
-        style={{
-          position: 'absolute',
-          bottom: `${Math.max(margins.bottom / 3, 16)}px`,
-          left: 0,
-          right: 0,
-          textAlign: 'center',
-          fontSize: '11px',
-          color: '#999',
-          fontFamily: 'system-ui, -apple-system, sans-serif',
-          pointerEvents: 'none',
-          userSelect: 'none',
-        }}
-      >
-        {pageNumber} / {totalPages}
-      </div>
+      {/* Footnote area, at the bottom of the content area */}
+      {footnotes.length > 0 && (
+        <div
+          className="dopecanvas-page-footnotes"
+          style={{
+            ...FOOTNOTE_STYLE,
+            position: 'absolute',
+            bottom: `${margins.bottom + headerFooterSpace.footer}px`,
+            left: `${margins.left}px`,
+            right: `${margins.right}px`,
+          }}
+        >
+          <div style={footnoteRuleStyle} />
+          {footnotes.map((note) => (
+            <div key={note.number} className="dopecanvas-footnote">
+              <sup>{note.number}</sup>{' '}
+              <span dangerouslySetInnerHTML={{ __html: note.html }} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Running footer, or the default page number (none on a distinct
+          first / even page whose footer is empty) */}
+      {footer ? (
+        <RunningText
+          className="dopecanvas-page-footer"
+          template={footer}
+          fields={pageFields}
+          onChange={editHandler(footerKey)}
+          style={{ bottom: `${margins.bottom}px`, left: `${margins.left}px`, right: `${margins.right}px` }}
+        />
+      ) : footerKey === 'footer' ? (
+        <div
+          className="dopecanvas-page-number"
+          style={{
+            position: 'absolute',
+            bottom: `${Math.max(margins.bottom / 3, 16)}px`,
+            left: 0,
+            right: 0,
+            textAlign: 'center',
+            fontSize: '11px',
+            color: '#999',
+            fontFamily: 'system-ui, -apple-system, sans-serif',
+            pointerEvents: 'none',
+            userSelect: 'none',
+          }}
+        >
+          {pageNumber} / {totalPages}
+        </div>
+      ) : null}
     </div>
   );
 };
+
+// ----------------------------------------------------------
+// Header / footer — template with fields filled in for this page
+// ----------------------------------------------------------
+
+interface RunningTextProps {
+  className: string;
+  template: string;
+  fields: HeaderFooterFields;
+  /** When set, the text is editable and reports the edited template on blur */
+  onChange?: (template: string) => void;
+  style: React.CSSProperties;
+}
+
+const RunningText: React.FC<RunningTextProps> = ({
+  className,
+  template,
+  fields,
+  onChange,
+  style,
+}) => (
+  <div
+    className={className}
+    contentEditable={onChange ? true : undefined}
+    onBlur={(e) => {
+      const edited = collapseFieldCodes(e.currentTarget.innerHTML);
+      if (edited !== template) onChange?.(edited);
+    }}
+    style={{
+      ...HEADER_FOOTER_STYLE,
+      position: 'absolute',
+      outline: 'none',
+      ...style,
+    }}
+    dangerouslySetInnerHTML={{ __html: expandFieldCodes(template, fields) }}
+  />
+);
+
+// ----------------------------------------------------------
+// Styles
+// ----------------------------------------------------------
+
+/** Short rule above the notes (FOOTNOTE_SEPARATOR high with its margin) */
+const footnoteRuleStyle: React.CSSProperties = {
+  width: '33%',
+  height: '1px',
+  backgroundColor: '#bbb',
+  marginBottom: '15px',
+};
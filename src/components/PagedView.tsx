@@ -8,26 +8,67 @@
 // User edits trigger live re-pagination when the block distribution
 // across pages changes (e.g. content grows past a page boundary).
 // Cursor position is saved/restored across re-pagination re-renders.
+// Blocks that change size without an edit (images and fonts loading,
+// scripts drawing charts) re-paginate too (LayoutWatcher).
+//
+// The EditableManager is attached to the pages container with this
+// view as its host, so undo/redo snapshots are the logical document
+// (split blocks recombined) and survive re-pagination.
+//
+// Each block is shown by a live content node (BlockNodes) that React
+// never re-creates: pages render empty slots and the nodes are moved
+// into them, so a block that changes pages keeps its edits and the
+// state of its scripts. Scripts run once per node.
+//
+// Long documents are virtualized: only pages near the viewport are
+// mounted, the others are empty frames of the same size. Blocks of
+// unmounted pages keep their (detached) nodes, and the document is
+// read from the nodes of all pages.
 // ============================================================
 
-import React, { useRef, useEffect, useCallback, useState, useImperativeHandle, forwardRef } from 'react';
+import React, {
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  useCallback,
+  useMemo,
+  useState,
+  useImperativeHandle,
+  forwardRef,
+} from 'react';
 import { Page } from './Page';
 import { BlockToolbar } from './BlockToolbar';
 import { HTMLEditorModal } from './HTMLEditorModal';
-import type { PageLayoutEngine } from '../core/PageLayoutEngine';
+import {
+  PageLayoutEngine,
+  readBreakAvoidance,
+  resolveColumns,
+  resolvePageDimensions,
+  resolvePageMargins,
+} from '../core/PageLayoutEngine';
 import type { EditableManager } from '../core/EditableManager';
 import type {
   PageConfig,
   PaginationResult,
-  PageSizeName,
+  PageBand,
+  PageSection,
+  DocumentSelection,
 } from '../core/types';
-import { PAGE_SIZE_PRESETS } from '../core/types';
-import { trySplitBlock, recombineSplitBlocks } from '../core/BlockSplitter';
+import { recombineSplitBlocks, SPLIT_ID_ATTR } from '../core/BlockSplitter';
+import { restoreDocumentSelection } from '../core/DocumentSelection';
+import { formatFieldDate, readDocumentTitle, HEADER_FOOTER_KEYS } from '../core/HeaderFooter';
+import { SECTION_ATTR } from '../core/Sections';
+import { numberFootnotes, FOOTNOTE_CSS } from '../core/Footnotes';
+import { LayoutWatcher } from '../core/LayoutWatcher';
+import { BlockNodes, isEditableBlock } from '../core/BlockNodes';
+import type { BlockRoots } from '../core/DocumentSelection';
 
 /** Methods exposed by PagedView to its parent via ref */
 export interface PagedViewHandle {
   /** Insert a page break after the block at the cursor, or at the end */
   insertPageBreak: () => void;
+  /** The document's block HTML, including pages not mounted (virtualized) */
+  getHTML: () => string;
 }
 
 interface PagedViewProps {
@@ -45,28 +86,44 @@ interface PagedViewProps {
   onContentChange?: (html: string) => void;
   /** Callback when pagination changes */
   onPaginationChange?: (result: PaginationResult) => void;
+  /** Callback when the page configuration is edited on the page (header / footer) */
+  onPageConfigChange?: (config: Partial<PageConfig>) => void;
   /** When true, render visual indicators for page break blocks */
   showPageBreaks?: boolean;
 }
 
 /**
  * Represents a block of content assigned to a specific page.
- * We store the HTML string so React can render it once, then
- * the live DOM takes over for editing.
+ * We store the HTML string as laid out and the live node showing
+ * it; the live DOM takes over for editing.
  */
 interface PageData {
   blocks: string[]; // outerHTML of each block in this page
+  /** Content node of each block (BlockNodes), moved between pages */
+  nodes: HTMLElement[];
+  /** Column layout (positions into `blocks`) of a multi-column page */
+  bands?: PageBand[];
+  /** Index into the layout's sections */
+  section: number;
+  /** Displayed page number (honours section page-number restarts) */
+  pageNumber: number;
+  /** First page of its section (selects the first-page header / footer) */
+  firstInSection: boolean;
+  /** Space reserved for this page's header / footer */
+  headerFooterSpace: { header: number; footer: number };
 }
 
 /**
  * Execute <script> tags found in a container.
  * Scripts set via innerHTML / dangerouslySetInnerHTML do NOT auto-execute.
  * We clone each one into a fresh <script> element so the browser runs it.
+ * Scripts in `activated` (already run) are skipped; the fresh ones are
+ * added to it. Block nodes keep their elements, so each script runs
+ * once however often its block moves or its page is mounted.
  */
-function activateScripts(container: HTMLElement): HTMLScriptElement[] {
-  const activated: HTMLScriptElement[] = [];
-
+function activateScripts(container: HTMLElement, activated: WeakSet<HTMLScriptElement>): void {
   container.querySelectorAll('script').forEach((orig) => {
+    if (activated.has(orig)) return;
     const fresh = document.createElement('script');
     // Preserve attributes (type, src, data-*, etc.)
     Array.from(orig.attributes).forEach((attr) =>
@@ -75,10 +132,86 @@ function activateScripts(container: HTMLElement): HTMLScriptElement[] {
     fresh.textContent = orig.textContent || '';
     // Replacing the node triggers synchronous execution for inline scripts
     orig.parentNode?.replaceChild(fresh, orig);
-    activated.push(fresh);
+    activated.add(fresh);
   });
+}
+
+/**
+ * Collect block HTML from block wrappers (collectBlockContents), one
+ * entry per wrapper. A wrapper holding several elements (the user
+ * pressed Enter and created new lines) is wrapped in a div to keep
+ * it as one block.
+ */
+function collectBlockHTMLs(contents: Element[]): string[] {
+  const blockHTMLs: string[] = [];
+  contents.forEach((contentDiv) => {
+    const div = contentDiv as HTMLElement;
+    const children = div.children;
+
+    if (children.length === 0) {
+      // Empty block - skip
+      return;
+    } else if (children.length === 1) {
+      // Single child - use its outerHTML (original behavior)
+      blockHTMLs.push((children[0] as HTMLElement).outerHTML);
+    } else {
+      const wrapper = document.createElement('div');
+      wrapper.innerHTML = div.innerHTML;
+      blockHTMLs.push(wrapper.outerHTML);
+    }
+  });
+  return blockHTMLs;
+}
+
+/**
+ * Collect the DOM roots of each logical block, matching
+ * recombineSplitBlocks(collectBlockHTMLs(contents)): consecutive
+ * wrappers holding parts of the same split block form one entry.
+ */
+function collectBlockRoots(contents: Element[]): BlockRoots {
+  const roots: BlockRoots = [];
+  let lastSplitId: string | null = null;
+  contents.forEach((contentDiv) => {
+    if (contentDiv.children.length === 0) return;
+
+    // Several children are collected as one wrapper div, never a split part
+    const splitId =
+      contentDiv.children.length === 1
+        ? contentDiv.firstElementChild!.getAttribute(SPLIT_ID_ATTR)
+        : null;
+    if (splitId && splitId === lastSplitId) {
+      roots[roots.length - 1].push(contentDiv);
+    } else {
+      roots.push([contentDiv]);
+    }
+    lastSplitId = splitId;
+  });
+  return roots;
+}
+
+// ----------------------------------------------------------
+// Virtualized rendering — only pages near the viewport are mounted
+// ----------------------------------------------------------
+
+/** Documents with more pages than this mount only the pages near the viewport */
+const VIRTUALIZE_MIN_PAGES = 12;
+/** Pages kept mounted on each side of those in view */
+const OVERSCAN_PAGES = 2;
+/** Pages mounted before the first visibility report */
+const INITIAL_MOUNTED_PAGES = 4;
+
+/** Attribute Page sets on its frame */
+const PAGE_INDEX_ATTR = 'data-dopecanvas-page';
 
-  return activated;
+/** The mounted pages: positions `first` to `last` (inclusive) */
+interface PageWindow {
+  first: number;
+  last: number;
+}
+
+/** The document's block content nodes in order (mounted or not) */
+function collectBlockContents(pages: PageData[]): Element[] {
+  return pages.flatMap((page) => page.nodes);
 }
 
 // ----------------------------------------------------------
@@ -93,16 +226,13 @@ interface CursorState {
 }
 
 /** Save the current cursor position relative to block content divs */
-function saveCursorPosition(container: HTMLElement): CursorState | null {
+function saveCursorPosition(wrappers: Element[]): CursorState | null {
   const sel = window.getSelection();
   if (!sel || sel.rangeCount === 0) return null;
 
   const range = sel.getRangeAt(0);
   const anchorNode = range.startContainer;
 
-  const wrappers = Array.from(
-    container.querySelectorAll('.dopecanvas-block-content')
-  );
   const blockIndex = wrappers.findIndex((w) => w.contains(anchorNode));
   if (blockIndex === -1) return null;
 
@@ -120,10 +250,9 @@ function saveCursorPosition(container: HTMLElement): CursorState | null {
 
 /** Restore cursor position after a re-pagination re-render */
 function restoreCursorPosition(
-  container: HTMLElement,
+  wrappers: Element[],
   state: CursorState
 ): void {
-  const wrappers = container.querySelectorAll('.dopecanvas-block-content');
   if (state.blockIndex >= wrappers.length) return;
 
   const wrapper = wrappers[state.blockIndex];
@@ -162,22 +291,73 @@ function restoreCursorPosition(
 }
 
 /**
- * Memoized block content — prevents React from re-rendering (and
- * resetting innerHTML) when unrelated state like hoveredBlockIndex
- * changes. User edits via contentEditable are preserved.
+ * Slot showing a block's live content node. React owns only the
+ * empty slot: the node is moved in after render (from wherever it
+ * was: another page, or detached while its page was unmounted).
  */
-const MemoizedBlockContent = React.memo<{
-  html: string;
-  isEditable: boolean;
-  isTable: boolean;
-}>(({ html, isEditable, isTable }) => (
-  <div
-    className="dopecanvas-block-content"
-    contentEditable={isEditable && !isTable ? true : undefined}
-    suppressContentEditableWarning
-    dangerouslySetInnerHTML={{ __html: html }}
-  />
-));
+const BlockSlot = React.memo<{
+  node: HTMLElement;
+  pageIndex: number;
+  blockNodes: BlockNodes;
+}>(({ node, pageIndex, blockNodes }) => {
+  const slotRef = useRef<HTMLDivElement>(null);
+  useLayoutEffect(() => {
+    const slot = slotRef.current;
+    if (!slot) return;
+    if (node.parentNode !== slot) slot.replaceChildren(node);
+    blockNodes.place(node, pageIndex);
+  }, [node, pageIndex, blockNodes]);
+  return <div ref={slotRef} className="dopecanvas-block-slot" />;
+});
+
+/** Break-avoidance toggles shown in the block toolbar */
+type KeepRule = 'together' | 'next';
+
+interface KeepState {
+  keepTogether: boolean;
+  keepWithNext: boolean;
+}
+
+/**
+ * Switch a block's "keep together" / "keep with next" rule via its
+ * inline style. When switching off a rule the block would still get
+ * from elsewhere (a stylesheet, or the heading default for keep with
+ * next), `auto` is written so the inline style wins.
+ */
+function setBlockKeepRule(blockHTML: string, rule: KeepRule, enabled: boolean): string {
+  const template = document.createElement('template');
+  template.innerHTML = blockHTML;
+  const el = template.content.firstElementChild as HTMLElement | null;
+  if (!el) return blockHTML;
+
+  const property = rule === 'together' ? 'break-inside' : 'break-after';
+  const legacyProperty = rule === 'together' ? 'page-break-inside' : 'page-break-after';
+  const inlineValue = el.style.getPropertyValue(property);
+  const inlineOn =
+    inlineValue === 'avoid' ||
+    inlineValue === 'avoid-page' ||
+    el.style.getPropertyValue(legacyProperty) === 'avoid';
+
+  el.style.removeProperty(property);
+  el.style.removeProperty(legacyProperty);
+
+  if (enabled) {
+    el.style.setProperty(property, 'avoid');
+  } else if (!inlineOn || (rule === 'next' && /^H[1-6]$/.test(el.tagName))) {
+    el.style.setProperty(property, 'auto');
+  }
+  if (!el.getAttribute('style')) el.removeAttribute('style');
+
+  return el.outerHTML;
+}
+
+/** Opening tag carrying the section-break attribute */
+const SECTION_BREAK_PATTERN = new RegExp(`^\\s*<[^>]*\\s${SECTION_ATTR}[\\s=>]`);
+
+/** Check if a block is a section-break marker */
+function isSectionBreakBlock(blockHTML: string): boolean {
+  return SECTION_BREAK_PATTERN.test(blockHTML);
+}
 
 /** Detect whether a block HTML string is a page break element */
 function isPageBreakBlock(blockHTML: string): boolean {
@@ -188,448 +368,234 @@ function isPageBreakBlock(blockHTML: string): boolean {
   );
 }
 
+// ----------------------------------------------------------
+// Pagination — the engine's split-aware layout, as rendered pages
+// ----------------------------------------------------------
+
+/** The pages of a laid-out document and the sections they belong to */
+interface DocumentLayout {
+  /** Pages without content nodes (given when the layout is shown) */
+  pages: Omit<PageData, 'nodes'>[];
+  sections: PageSection[];
+  /** The engine's result, reported to the host */
+  result: PaginationResult;
+}
+
+/**
+ * Lay the document out (PageLayoutEngine.paginateDocument) in the
+ * hidden measure container `mc` and turn the pages into render data.
+ * After an edit (`incremental`), only what the edit can have moved
+ * is laid out again (PageLayoutEngine.repaginateDocument).
+ */
+function layoutDocument(
+  mc: HTMLElement,
+  htmlContent: string,
+  css: string | undefined,
+  layoutEngine: PageLayoutEngine,
+  title: string,
+  incremental = false
+): DocumentLayout {
+  const result = incremental
+    ? layoutEngine.repaginateDocument(mc, htmlContent, { css, title })
+    : layoutEngine.paginateDocument(mc, htmlContent, { css, title });
+  const pages = result.pages.map((page): Omit<PageData, 'nodes'> => ({
+    blocks: (page.fragments ?? []).map((fragment) => fragment.html),
+    bands: page.bands,
+    section: page.section ?? 0,
+    pageNumber: page.pageNumber ?? 1,
+    firstInSection: page.firstInSection ?? false,
+    headerFooterSpace: page.headerFooterSpace ?? { header: 0, footer: 0 },
+  }));
+  return { pages, sections: result.sections ?? [], result };
+}
+
+/**
+ * Arrange a page's rendered blocks in its column bands (document
+ * order is kept: band by band, column by column). Single-column
+ * pages render their blocks as they are.
+ */
+function renderBands(
+  bands: PageBand[] | undefined,
+  gap: number,
+  blocks: React.ReactNode[]
+): React.ReactNode {
+  if (!bands) return blocks;
+  return bands.map((band, b) =>
+    band.span ? (
+      <React.Fragment key={b}>{band.columns[0].map((pos) => blocks[pos])}</React.Fragment>
+    ) : (
+      <div key={b} className="dopecanvas-columns" style={{ ...columnsStyle, columnGap: `${gap}px` }}>
+        {band.columns.map((column, c) => (
+          <div key={c} className="dopecanvas-column" style={columnStyle}>
+            {column.map((pos) => blocks[pos])}
+          </div>
+        ))}
+      </div>
+    )
+  );
+}
+
 export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
   html,
   css,
   pageConfig,
   layoutEngine,
-  editableManager: _editableManager,
+  editableManager,
   onContentChange,
   onPaginationChange,
+  onPageConfigChange,
   showPageBreaks = false,
 }, ref) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
   const measureRef = useRef<HTMLDivElement>(null);
   const pagesContainerRef = useRef<HTMLDivElement>(null);
   const mutationObserverRef = useRef<MutationObserver | null>(null);
+  /** Pending re-pagination after an edit (kept across re-renders) */
+  const rePaginateTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  /** Scripts already run (see activateScripts) */
+  const activatedScriptsRef = useRef(new WeakSet<HTMLScriptElement>());
+  /** Live content nodes of the blocks (page breaks are not editable) */
+  const [blockNodes] = useState(
+    () =>
+      new BlockNodes(
+        (html) => isEditableBlock(html) && !isSectionBreakBlock(html) && !isPageBreakBlock(html)
+      )
+  );
   const onContentChangeRef = useRef(onContentChange);
   onContentChangeRef.current = onContentChange;
 
   // Pages state — set during pagination AND live re-pagination
   const [pages, setPages] = useState<PageData[]>([]);
+  // Sections of the current layout (page size / margins / header per page)
+  const [sections, setSections] = useState<PageSection[]>([]);
+  // Bumped to remount every page when the DOM must be rebuilt from
+  // `pages` even where block HTML is unchanged (new document, undo)
+  const [renderGeneration, setRenderGeneration] = useState(0);
 
   // Refs for live re-pagination
   const pendingCursorRef = useRef<CursorState | null>(null);
+  /** Selection to restore after an undo / redo re-render */
+  const pendingSelectionRef = useRef<DocumentSelection | null>(null);
   const isRePaginatingRef = useRef(false);
+  /** Pages as rendered (the HTML of unmounted pages is read from here) */
   const pagesRef = useRef<PageData[]>([]);
+  // Mounted pages of a virtualized document
+  const [pageWindow, setPageWindow] = useState<PageWindow>({
+    first: 0,
+    last: INITIAL_MOUNTED_PAGES - 1,
+  });
+  const pageWindowRef = useRef(pageWindow);
+  /** Document title for the {title} header / footer field (ref: read while measuring) */
+  const [documentTitle, setDocumentTitle] = useState('');
+  const documentTitleRef = useRef('');
 
   // Block management state
   const [hoveredBlockIndex, setHoveredBlockIndex] = useState<number | null>(null);
+  const [hoveredKeepState, setHoveredKeepState] = useState<KeepState>({
+    keepTogether: false,
+    keepWithNext: false,
+  });
   const [editingBlockIndex, setEditingBlockIndex] = useState<number | null>(null);
   const [editingHTML, setEditingHTML] = useState<string>('');
   const hideTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Resolve page dimensions
-  const dimensions =
-    typeof pageConfig.size === 'string'
-      ? PAGE_SIZE_PRESETS[pageConfig.size as PageSizeName]
-      : pageConfig.size;
+  const dimensions = resolvePageDimensions(pageConfig);
+  const fieldDate = formatFieldDate();
 
   // ----------------------------------------------------------
   // Collect current HTML from the live DOM (no re-render)
   // ----------------------------------------------------------
 
+  /** The document's block content nodes (see collectBlockContents) */
+  const blockContents = useCallback(
+    (): Element[] => collectBlockContents(pagesRef.current),
+    []
+  );
+
   const collectHTMLFromDOM = useCallback(() => {
     if (!pagesContainerRef.current) return;
 
-    const contentDivs = pagesContainerRef.current.querySelectorAll(
-      '.dopecanvas-block-content'
-    );
-
-    const htmlParts: string[] = [];
-    contentDivs.forEach((contentDiv) => {
-      const div = contentDiv as HTMLElement;
-      const children = div.children;
-      
-      if (children.length === 0) {
-        // Empty block - skip
-        return;
-      } else if (children.length === 1) {
-        // Single child - use its outerHTML (original behavior)
-        htmlParts.push((children[0] as HTMLElement).outerHTML);
-      } else {
-        // Multiple children (user pressed Enter and created new lines)
-        // Wrap them in a div to keep as one block
-        const wrapper = document.createElement('div');
-        wrapper.innerHTML = div.innerHTML;
-        htmlParts.push(wrapper.outerHTML);
-      }
-    });
-
-    const updatedHTML = htmlParts.join('\n');
+    const updatedHTML = recombineSplitBlocks(collectBlockHTMLs(blockContents())).join('\n');
     onContentChangeRef.current?.(updatedHTML);
-  }, []);
+  }, [blockContents]);
+
+  /**
+   * Give the pages of a new layout their content nodes: the nodes
+   * shown now are moved to the blocks they still show, unless the
+   * layout is of a new document.
+   */
+  const withBlockNodes = useCallback(
+    (layoutPages: DocumentLayout['pages'], newDocument: boolean): PageData[] => {
+      const current = pagesRef.current.flatMap((page) => page.nodes);
+      const nodes = blockNodes.assign(
+        layoutPages.map((page) => page.blocks),
+        newDocument ? [] : current
+      );
+      if (newDocument) blockNodes.release(current);
+      return layoutPages.map((page, pageIndex) => ({ ...page, nodes: nodes[pageIndex] }));
+    },
+    [blockNodes]
+  );
 
   // ----------------------------------------------------------
   // Shared pagination: measure + paginate with block splitting
   // ----------------------------------------------------------
 
-  const paginateHTML = useCallback((htmlContent: string) => {
+  const paginateHTML = useCallback((htmlContent: string, newDocument = false) => {
     if (!measureRef.current) return;
 
-    const mc = measureRef.current;
-    const contentWidth = layoutEngine.getContentAreaWidth();
-    const contentHeight = layoutEngine.getContentAreaHeight();
-    mc.style.width = `${contentWidth}px`;
-    mc.style.position = 'absolute';
-    mc.style.left = '-9999px';
-    mc.style.top = '0';
-    mc.style.visibility = 'hidden';
-    mc.innerHTML = '';
-
-    if (css) {
-      const styleEl = document.createElement('style');
-      styleEl.textContent = css;
-      mc.appendChild(styleEl);
-    }
-
-    const wrapper = document.createElement('div');
-    wrapper.innerHTML = htmlContent;
-    mc.appendChild(wrapper);
-
-    // Measure all blocks
-    const measurements = layoutEngine.measureBlocks(wrapper);
-
-    // Build a queue of blocks to paginate (with splitting)
-    interface QueueItem {
-      html: string;
-      height: number;
-      element: HTMLElement;
-      breakBefore: boolean;
-      breakAfter: boolean;
-    }
-
-    const queue: QueueItem[] = measurements.map((m) => {
-      const el = m.element;
-      return {
-        html: (el.cloneNode(true) as HTMLElement).outerHTML,
-        height: m.height,
-        element: el,
-        breakBefore: m.breakBefore,
-        breakAfter: m.breakAfter,
-      };
-    });
-
-    // Paginate with splitting
-    const pages: string[][] = [];
-    let currentPage: string[] = [];
-    let currentHeight = 0;
-
-    let i = 0;
-    while (i < queue.length) {
-      const block = queue[i];
-
-      // Handle break-before
-      if (block.breakBefore && currentPage.length > 0) {
-        pages.push(currentPage);
-        currentPage = [];
-        currentHeight = 0;
-      }
-
-      const remainingSpace = contentHeight - currentHeight;
-
-      if (block.height <= remainingSpace) {
-        // Block fits entirely on current page
-        currentPage.push(block.html);
-        currentHeight += block.height;
-      } else if (currentPage.length > 0 && remainingSpace >= 60) {
-        // Current page has content and enough remaining space to try a split
-        const splitResult = trySplitBlock(block.element, remainingSpace);
-        if (splitResult) {
-          // First half goes on current page
-          currentPage.push(splitResult.firstHTML);
-          pages.push(currentPage);
-          currentPage = [];
-          currentHeight = 0;
-
-          // Measure the second half and insert it into the queue
-          const tempEl = document.createElement('div');
-          tempEl.innerHTML = splitResult.secondHTML;
-          const newElement = tempEl.firstElementChild as HTMLElement;
-          wrapper.appendChild(newElement);
-
-          const rect = newElement.getBoundingClientRect();
-          const style = window.getComputedStyle(newElement);
-          const marginTop = parseFloat(style.marginTop) || 0;
-          const marginBottom = parseFloat(style.marginBottom) || 0;
-
-          queue.splice(i + 1, 0, {
-            html: newElement.outerHTML,
-            height: rect.height + marginTop + marginBottom,
-            element: newElement,
-            breakBefore: false,
-            breakAfter: block.breakAfter,
-          });
-        } else {
-          // Can't split — move to next page
-          pages.push(currentPage);
-          currentPage = [block.html];
-          currentHeight = block.height;
-        }
-      } else if (currentPage.length > 0) {
-        // Not enough remaining space — move block to next page
-        pages.push(currentPage);
-        currentPage = [block.html];
-        currentHeight = block.height;
-      } else {
-        // Block is first on the page and taller than page — try to split
-        const splitResult = trySplitBlock(block.element, contentHeight);
-        if (splitResult) {
-          currentPage.push(splitResult.firstHTML);
-          pages.push(currentPage);
-          currentPage = [];
-          currentHeight = 0;
-
-          // Measure and queue the second half
-          const tempEl = document.createElement('div');
-          tempEl.innerHTML = splitResult.secondHTML;
-          const newElement = tempEl.firstElementChild as HTMLElement;
-          wrapper.appendChild(newElement);
-
-          const rect = newElement.getBoundingClientRect();
-          const style = window.getComputedStyle(newElement);
-          const marginTop = parseFloat(style.marginTop) || 0;
-          const marginBottom = parseFloat(style.marginBottom) || 0;
-
-          queue.splice(i + 1, 0, {
-            html: newElement.outerHTML,
-            height: rect.height + marginTop + marginBottom,
-            element: newElement,
-            breakBefore: false,
-            breakAfter: block.breakAfter,
-          });
-        } else {
-          // Can't split — place on its own page (overflows)
-          currentPage.push(block.html);
-          pages.push(currentPage);
-          currentPage = [];
-          currentHeight = 0;
-        }
-      }
-
-      // Handle break-after
-      if (block.breakAfter && currentPage.length > 0) {
-        pages.push(currentPage);
-        currentPage = [];
-        currentHeight = 0;
-      }
-
-      i++;
-    }
-
-    // Push the last page
-    if (currentPage.length > 0) {
-      pages.push(currentPage);
-    }
-    if (pages.length === 0) {
-      pages.push([]);
-    }
-
-    mc.innerHTML = '';
-
-    const pageData: PageData[] = pages.map((blocks) => ({ blocks }));
-    const paginationResult: PaginationResult = {
-      pages: pages.map((_, idx) => ({ blockIndices: Array.from({ length: pages[idx].length }, (__, j) => j) })),
-      pageCount: pages.length,
-    };
+    const layout = layoutDocument(
+      measureRef.current,
+      htmlContent,
+      css,
+      layoutEngine,
+      documentTitleRef.current
+    );
 
-    pagesRef.current = pageData;
-    setPages(pageData);
-    onPaginationChange?.(paginationResult);
+    const newPages = withBlockNodes(layout.pages, newDocument);
+    pagesRef.current = newPages;
+    setPages(newPages);
+    setSections(layout.sections);
+    onPaginationChange?.(layout.result);
     onContentChangeRef.current?.(htmlContent);
-  }, [css, layoutEngine, onPaginationChange]);
+  }, [css, layoutEngine, onPaginationChange, withBlockNodes]);
 
   // ----------------------------------------------------------
   // Live re-pagination — runs after user edits change block sizes
   // ----------------------------------------------------------
   // 1. Collect block HTML from the live DOM
   // 2. Recombine any previously-split blocks
-  // 3. Re-paginate with splitting (uses paginateHTML)
+  // 3. Re-paginate from the edited page on (layoutDocument, incremental)
   // ----------------------------------------------------------
 
   const rePaginateFromDOM = useCallback(() => {
     if (!pagesContainerRef.current || !measureRef.current) return;
 
-    const container = pagesContainerRef.current;
-
     // Save cursor position before we potentially re-render
-    const cursor = saveCursorPosition(container);
+    const contents = blockContents();
+    const cursor = saveCursorPosition(contents);
 
     // Collect block HTML from the live DOM
-    const contentDivs = container.querySelectorAll('.dopecanvas-block-content');
-    const rawBlockHTMLs: string[] = [];
-    contentDivs.forEach((contentDiv) => {
-      const div = contentDiv as HTMLElement;
-      const children = div.children;
-      
-      if (children.length === 0) {
-        // Empty block - skip
-        return;
-      } else if (children.length === 1) {
-        // Single child - use its outerHTML (original behavior)
-        rawBlockHTMLs.push((children[0] as HTMLElement).outerHTML);
-      } else {
-        // Multiple children (user pressed Enter and created new lines)
-        // Wrap them in a div to keep as one block
-        const wrapper = document.createElement('div');
-        wrapper.innerHTML = div.innerHTML;
-        rawBlockHTMLs.push(wrapper.outerHTML);
-      }
-    });
+    const rawBlockHTMLs = collectBlockHTMLs(contents);
     if (rawBlockHTMLs.length === 0) return;
 
     // Recombine any previously-split blocks before re-measuring
     const recombined = recombineSplitBlocks(rawBlockHTMLs);
     const htmlContent = recombined.join('\n');
 
-    // Set up hidden measure container
-    const mc = measureRef.current;
-    const contentWidth = layoutEngine.getContentAreaWidth();
-    const contentHeight = layoutEngine.getContentAreaHeight();
-    mc.style.width = `${contentWidth}px`;
-    mc.style.position = 'absolute';
-    mc.style.left = '-9999px';
-    mc.style.top = '0';
-    mc.style.visibility = 'hidden';
-    mc.innerHTML = '';
-
-    if (css) {
-      const styleEl = document.createElement('style');
-      styleEl.textContent = css;
-      mc.appendChild(styleEl);
-    }
-
-    const measureWrapper = document.createElement('div');
-    measureWrapper.innerHTML = htmlContent;
-    mc.appendChild(measureWrapper);
-
-    // Measure all blocks
-    const measurements = layoutEngine.measureBlocks(measureWrapper);
-
-    // Build queue for splitting pagination
-    interface QueueItem {
-      html: string;
-      height: number;
-      element: HTMLElement;
-      breakBefore: boolean;
-      breakAfter: boolean;
-    }
-
-    const queue: QueueItem[] = measurements.map((m) => ({
-      html: (m.element.cloneNode(true) as HTMLElement).outerHTML,
-      height: m.height,
-      element: m.element,
-      breakBefore: m.breakBefore,
-      breakAfter: m.breakAfter,
-    }));
-
-    // Paginate with splitting (same algorithm as paginateHTML)
-    const pages: string[][] = [];
-    let currentPage: string[] = [];
-    let currentPageHeight = 0;
-
-    let idx = 0;
-    while (idx < queue.length) {
-      const block = queue[idx];
-
-      if (block.breakBefore && currentPage.length > 0) {
-        pages.push(currentPage);
-        currentPage = [];
-        currentPageHeight = 0;
-      }
-
-      const remainingSpace = contentHeight - currentPageHeight;
-
-      if (block.height <= remainingSpace) {
-        currentPage.push(block.html);
-        currentPageHeight += block.height;
-      } else if (currentPage.length > 0 && remainingSpace >= 60) {
-        const splitResult = trySplitBlock(block.element, remainingSpace);
-        if (splitResult) {
-          currentPage.push(splitResult.firstHTML);
-          pages.push(currentPage);
-          currentPage = [];
-          currentPageHeight = 0;
-
-          const tempEl = document.createElement('div');
-          tempEl.innerHTML = splitResult.secondHTML;
-          const newElement = tempEl.firstElementChild as HTMLElement;
-          measureWrapper.appendChild(newElement);
-
-          const rect = newElement.getBoundingClientRect();
-          const st = window.getComputedStyle(newElement);
-          const mt = parseFloat(st.marginTop) || 0;
-          const mb = parseFloat(st.marginBottom) || 0;
-
-          queue.splice(idx + 1, 0, {
-            html: newElement.outerHTML,
-            height: rect.height + mt + mb,
-            element: newElement,
-            breakBefore: false,
-            breakAfter: block.breakAfter,
-          });
-        } else {
-          pages.push(currentPage);
-          currentPage = [block.html];
-          currentPageHeight = block.height;
-        }
-      } else if (currentPage.length > 0) {
-        pages.push(currentPage);
-        currentPage = [block.html];
-        currentPageHeight = block.height;
-      } else {
-        const splitResult = trySplitBlock(block.element, contentHeight);
-        if (splitResult) {
-          currentPage.push(splitResult.firstHTML);
-          pages.push(currentPage);
-          currentPage = [];
-          currentPageHeight = 0;
-
-          const tempEl = document.createElement('div');
-          tempEl.innerHTML = splitResult.secondHTML;
-          const newElement = tempEl.firstElementChild as HTMLElement;
-          measureWrapper.appendChild(newElement);
-
-          const rect = newElement.getBoundingClientRect();
-          const st = window.getComputedStyle(newElement);
-          const mt = parseFloat(st.marginTop) || 0;
-          const mb = parseFloat(st.marginBottom) || 0;
-
-          queue.splice(idx + 1, 0, {
-            html: newElement.outerHTML,
-            height: rect.height + mt + mb,
-            element: newElement,
-            breakBefore: false,
-            breakAfter: block.breakAfter,
-          });
-        } else {
-          currentPage.push(block.html);
-          pages.push(currentPage);
-          currentPage = [];
-          currentPageHeight = 0;
-        }
-      }
-
-      if (block.breakAfter && currentPage.length > 0) {
-        pages.push(currentPage);
-        currentPage = [];
-        currentPageHeight = 0;
-      }
-
-      idx++;
-    }
-
-    if (currentPage.length > 0) pages.push(currentPage);
-    if (pages.length === 0) pages.push([]);
-
-    mc.innerHTML = '';
-
-    // Build new page data
-    const newPageData: PageData[] = pages.map((blocks) => ({ blocks }));
-
+    const layout = layoutDocument(
+      measureRef.current,
+      htmlContent,
+      css,
+      layoutEngine,
+      documentTitleRef.current,
+      true
+    );
     // Only re-render if the PAGE STRUCTURE changed (blocks moved between pages)
     // NOT when content within a block changes - the live DOM already has correct content
     const oldDist = pagesRef.current.map((p) => p.blocks.length);
-    const newDist = newPageData.map((p) => p.blocks.length);
+    const newDist = layout.pages.map((p) => p.blocks.length);
     const pageStructureChanged =
       oldDist.length !== newDist.length ||
       oldDist.some((count, i) => count !== newDist[i]);
@@ -637,23 +603,67 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
     if (pageStructureChanged) {
       isRePaginatingRef.current = true;
       pendingCursorRef.current = cursor;
+      const newPageData = withBlockNodes(layout.pages, false);
       pagesRef.current = newPageData;
       setPages(newPageData);
-      onPaginationChange?.({
-        pages: pages.map(() => ({ blockIndices: [] })),
-        pageCount: pages.length,
-      });
-    } else {
-      // Update the ref without triggering re-render
-      // This keeps the saved HTML in sync for getHTML() calls
-      pagesRef.current = newPageData;
+      setSections(layout.sections);
+      onPaginationChange?.(layout.result);
     }
-  }, [css, layoutEngine, onPaginationChange]);
+    // Otherwise nothing is re-rendered: the live DOM already has the
+    // content, and pagesRef keeps the pages as rendered
+  }, [css, layoutEngine, onPaginationChange, blockContents, withBlockNodes]);
 
   // Keep a stable ref so the MutationObserver closure always calls the latest version
   const rePaginateFromDOMRef = useRef(rePaginateFromDOM);
   rePaginateFromDOMRef.current = rePaginateFromDOM;
 
+  // ----------------------------------------------------------
+  // Re-paginate when blocks change size without an edit: images and
+  // web fonts loading after layout (their cached heights dropped) or
+  // scripts resizing their output (LayoutWatcher)
+  // ----------------------------------------------------------
+
+  const layoutWatcherRef = useRef<LayoutWatcher | null>(null);
+
+  useEffect(() => {
+    const container = pagesContainerRef.current;
+    if (!container) return;
+
+    const watcher = new LayoutWatcher(() => {
+      // An edit in progress re-paginates once typing pauses
+      if (rePaginateTimerRef.current) return;
+      rePaginateFromDOMRef.current();
+    });
+    watcher.watch(container, layoutEngine.getMeasurementCache());
+    layoutWatcherRef.current = watcher;
+
+    return () => {
+      watcher.disconnect();
+      layoutWatcherRef.current = null;
+    };
+  }, [layoutEngine]);
+
+  // ----------------------------------------------------------
+  // Undo history — EditableManager attached with this view as host
+  // ----------------------------------------------------------
+
+  useEffect(() => {
+    const container = pagesContainerRef.current;
+    if (!container) return;
+
+    editableManager.attach(container, {
+      getBlocks: () => recombineSplitBlocks(collectBlockHTMLs(blockContents())),
+      getBlockRoots: () => collectBlockRoots(blockContents()),
+      setBlocks: (blocks, selection) => {
+        pendingSelectionRef.current = selection;
+        setRenderGeneration((g) => g + 1);
+        paginateHTML(blocks.join('\n'));
+      },
+    });
+
+    return () => editableManager.detach();
+  }, [editableManager, paginateHTML, blockContents]);
+
   // ----------------------------------------------------------
   // Pagination — runs on initial load and config changes
   // ----------------------------------------------------------
@@ -675,35 +685,55 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
         parsed.body.insertBefore(el, parsed.body.firstChild);
       });
 
-    paginateHTML(parsed.body.innerHTML);
-  }, [html, paginateHTML]);
+    documentTitleRef.current = readDocumentTitle(parsed);
+    setDocumentTitle(documentTitleRef.current);
+
+    // A new document starts a fresh undo history
+    editableManager.resetHistory();
+    setRenderGeneration((g) => g + 1);
+    paginateHTML(parsed.body.innerHTML, true);
+  }, [html, editableManager, paginateHTML]);
 
-  // Run pagination when html or pageConfig changes
+  // Run pagination when html changes
   useEffect(() => {
     runPagination();
   }, [runPagination]);
 
+  // Re-paginate the live document when the page configuration changes.
+  // The engine is updated here too: this effect runs before the
+  // parent's, and pagination must see the new size / header / footer.
+  const configKey = JSON.stringify(pageConfig);
+  const lastConfigKeyRef = useRef(configKey);
+  useEffect(() => {
+    if (lastConfigKeyRef.current === configKey) return;
+    lastConfigKeyRef.current = configKey;
+
+    const container = pagesContainerRef.current;
+    if (!container) return;
+    layoutEngine.setConfig(pageConfig);
+    const blocks = recombineSplitBlocks(collectBlockHTMLs(blockContents()));
+    setRenderGeneration((g) => g + 1);
+    paginateHTML(blocks.join('\n'));
+  }, [configKey, pageConfig, layoutEngine, paginateHTML, blockContents]);
+
   // ----------------------------------------------------------
   // Block management — add / delete / edit HTML
   // ----------------------------------------------------------
 
   /** Collect all block outerHTMLs from the live DOM */
   const collectBlocksFromDOM = useCallback((): string[] => {
-    if (!pagesContainerRef.current) return [];
-    const contentDivs = pagesContainerRef.current.querySelectorAll(
-      '.dopecanvas-block-content'
-    );
     const blocks: string[] = [];
-    contentDivs.forEach((div) => {
+    blockContents().forEach((div) => {
       const child = div.firstElementChild as HTMLElement;
       if (child) blocks.push(child.outerHTML);
     });
     return blocks;
-  }, []);
+  }, [blockContents]);
 
   /** Add a new empty block below the given global index */
   const handleAddBlock = useCallback(
     (globalIndex: number) => {
+      editableManager.flushPendingChanges();
       const blocks = collectBlocksFromDOM();
       blocks.splice(
         globalIndex + 1,
@@ -713,19 +743,20 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
       setHoveredBlockIndex(null);
       paginateHTML(blocks.join('\n'));
     },
-    [collectBlocksFromDOM, paginateHTML]
+    [collectBlocksFromDOM, editableManager, paginateHTML]
   );
 
   /** Delete the block at the given global index */
   const handleDeleteBlock = useCallback(
     (globalIndex: number) => {
+      editableManager.flushPendingChanges();
       const blocks = collectBlocksFromDOM();
       if (blocks.length <= 1) return; // keep at least one block
       blocks.splice(globalIndex, 1);
       setHoveredBlockIndex(null);
       paginateHTML(blocks.join('\n'));
     },
-    [collectBlocksFromDOM, paginateHTML]
+    [collectBlocksFromDOM, editableManager, paginateHTML]
   );
 
   /** Open the HTML source editor for the given block */
@@ -744,6 +775,7 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
   const handleSaveHTML = useCallback(
     (newHTML: string) => {
       if (editingBlockIndex === null) return;
+      editableManager.flushPendingChanges();
       const blocks = collectBlocksFromDOM();
       if (editingBlockIndex < blocks.length) {
         blocks[editingBlockIndex] = newHTML;
@@ -753,7 +785,24 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
       setHoveredBlockIndex(null);
       paginateHTML(blocks.join('\n'));
     },
-    [editingBlockIndex, collectBlocksFromDOM, paginateHTML]
+    [editingBlockIndex, collectBlocksFromDOM, editableManager, paginateHTML]
+  );
+
+  /** Toggle "keep together" / "keep with next" and re-paginate */
+  const handleToggleKeep = useCallback(
+    (globalIndex: number, rule: KeepRule) => {
+      editableManager.flushPendingChanges();
+      const blocks = collectBlocksFromDOM();
+      if (globalIndex >= blocks.length) return;
+      const enabled =
+        rule === 'together'
+          ? !hoveredKeepState.keepTogether
+          : !hoveredKeepState.keepWithNext;
+      blocks[globalIndex] = setBlockKeepRule(blocks[globalIndex], rule, enabled);
+      setHoveredBlockIndex(null);
+      paginateHTML(blocks.join('\n'));
+    },
+    [collectBlocksFromDOM, editableManager, hoveredKeepState, paginateHTML]
   );
 
   /** Cancel the HTML editor */
@@ -769,16 +818,15 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
   /** Insert a page break after the block containing the cursor, or at the end */
   const insertPageBreak = useCallback(() => {
     const PAGE_BREAK_HTML = '<div style="break-before: page;"></div>';
+    editableManager.flushPendingChanges();
     const blocks = collectBlocksFromDOM();
 
     // Try to find which block the cursor is in
     let insertIdx = blocks.length; // default: append at end
     const sel = window.getSelection();
-    if (sel && sel.rangeCount > 0 && pagesContainerRef.current) {
+    if (sel && sel.rangeCount > 0) {
       const anchorNode = sel.getRangeAt(0).startContainer;
-      const wrappers = Array.from(
-        pagesContainerRef.current.querySelectorAll('.dopecanvas-block-content')
-      );
+      const wrappers = blockContents();
       const cursorBlockIdx = wrappers.findIndex((w) => w.contains(anchorNode));
       if (cursorBlockIdx !== -1) {
         insertIdx = cursorBlockIdx + 1;
@@ -788,12 +836,14 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
     blocks.splice(insertIdx, 0, PAGE_BREAK_HTML);
     setHoveredBlockIndex(null);
     paginateHTML(blocks.join('\n'));
-  }, [collectBlocksFromDOM, paginateHTML]);
+  }, [collectBlocksFromDOM, editableManager, paginateHTML, blockContents]);
 
   // Expose methods to parent via ref
   useImperativeHandle(ref, () => ({
     insertPageBreak,
-  }), [insertPageBreak]);
+    // Split blocks are whole again (without display-only clones)
+    getHTML: () => recombineSplitBlocks(collectBlockHTMLs(blockContents())).join('\n'),
+  }), [insertPageBreak, blockContents]);
 
   // ----------------------------------------------------------
   // After pages render: make editable + observe changes
@@ -808,36 +858,26 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
       mutationObserverRef.current.disconnect();
     }
 
-    // Make table cells individually editable.
-    // Non-table blocks get contentEditable from their React prop;
-    // tables need cell-level editability so users can't break table structure.
-    const blockContents = container.querySelectorAll('.dopecanvas-block-content');
-    blockContents.forEach((contentDiv) => {
-      const child = contentDiv.firstElementChild as HTMLElement;
-      if (!child) return;
-
-      if (child.tagName === 'TABLE') {
-        const cells = child.querySelectorAll('td, th');
-        cells.forEach((cell) => {
-          (cell as HTMLElement).contentEditable = 'true';
-        });
-      }
-    });
-
-    // Execute <script> tags embedded in the LLM-authored HTML.
-    // This must run AFTER contentEditable setup so scripts can override
-    // editability on specific cells (e.g. formula cells).
-    const activatedScripts = activateScripts(container);
+    // Execute <script> tags embedded in the LLM-authored HTML, once
+    // per block node: nodes moved to another page keep their state.
+    // Nodes are made editable when created (BlockNodes), so scripts
+    // can override editability on specific cells (e.g. formula cells).
+    activateScripts(container, activatedScriptsRef.current);
+    const contentDivs = container.querySelectorAll('.dopecanvas-block-content');
 
-    // Set up MutationObserver — collects HTML and re-paginates when needed
-    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    // Watch the rendered blocks (scripts have run) for size changes
+    layoutWatcherRef.current?.observeBlocks(contentDivs);
 
+    // Set up MutationObserver — collects HTML and re-paginates when needed.
+    // The timer outlives this effect: pages mounted or unmounted while
+    // scrolling must not drop a pending re-pagination.
     const observer = new MutationObserver(() => {
       if (isRePaginatingRef.current) return;
-      if (debounceTimer) clearTimeout(debounceTimer);
+      if (rePaginateTimerRef.current) clearTimeout(rePaginateTimerRef.current);
       // Use longer debounce to avoid erratic behavior during normal typing
       // Re-pagination only needs to happen when content size changes significantly
-      debounceTimer = setTimeout(() => {
+      rePaginateTimerRef.current = setTimeout(() => {
+        rePaginateTimerRef.current = null;
         collectHTMLFromDOM();
         rePaginateFromDOMRef.current();
       }, 800);
@@ -857,7 +897,7 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
       requestAnimationFrame(() => {
         if (pendingCursorRef.current && pagesContainerRef.current) {
           restoreCursorPosition(
-            pagesContainerRef.current,
+            blockContents(),
             pendingCursorRef.current
           );
           pendingCursorRef.current = null;
@@ -868,19 +908,89 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
       isRePaginatingRef.current = false;
     }
 
-    return () => {
-      observer.disconnect();
-      activatedScripts.forEach((s) => s.remove());
-      if (debounceTimer) clearTimeout(debounceTimer);
-    };
-  }, [pages, collectHTMLFromDOM]);
+    // Restore the selection recorded with an undo / redo step
+    const selection = pendingSelectionRef.current;
+    if (selection) {
+      pendingSelectionRef.current = null;
+      restoreDocumentSelection(collectBlockRoots(blockContents()), selection);
+    }
+
+    return () => observer.disconnect();
+  }, [pages, pageWindow, collectHTMLFromDOM, blockContents]);
+
+  // Drop a pending re-pagination when the view goes away
+  useEffect(() => () => {
+    if (rePaginateTimerRef.current) clearTimeout(rePaginateTimerRef.current);
+  }, []);
+
+  // ----------------------------------------------------------
+  // Virtualized rendering — mount the pages near the viewport
+  // ----------------------------------------------------------
+
+  const virtualized =
+    pages.length > VIRTUALIZE_MIN_PAGES && typeof IntersectionObserver !== 'undefined';
+
+  /**
+   * Mount the pages of `next` instead of the current window. Pages
+   * leaving it keep their edits in their (detached) block nodes.
+   */
+  const showPages = useCallback((next: PageWindow) => {
+    const current = pageWindowRef.current;
+    if (next.first === current.first && next.last === current.last) return;
+
+    // Mounting and unmounting pages is not an edit
+    isRePaginatingRef.current = true;
+    pageWindowRef.current = next;
+    setPageWindow(next);
+  }, []);
+
+  // Track which pages are in (or near) the viewport
+  useEffect(() => {
+    const container = pagesContainerRef.current;
+    if (!virtualized || !container) return;
+
+    const inView = new Set<number>();
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const pageIndex = Number(entry.target.getAttribute(PAGE_INDEX_ATTR));
+          if (entry.isIntersecting) inView.add(pageIndex);
+          else inView.delete(pageIndex);
+        });
+        if (inView.size === 0) return;
+        showPages({
+          first: Math.max(0, Math.min(...inView) - OVERSCAN_PAGES),
+          last: Math.min(pagesRef.current.length - 1, Math.max(...inView) + OVERSCAN_PAGES),
+        });
+      },
+      { root: scrollRef.current, rootMargin: '50% 0px' }
+    );
+    container.querySelectorAll(`[${PAGE_INDEX_ATTR}]`).forEach((page) => observer.observe(page));
+    return () => observer.disconnect();
+  }, [virtualized, pages, renderGeneration, showPages]);
 
   // ----------------------------------------------------------
   // Render
   // ----------------------------------------------------------
 
+  // Notes of each page, numbered through the document, and the count
+  // of notes before each page (parsed again only when pages change)
+  const { footnotes, footnotesBefore } = useMemo(() => {
+    const notes = numberFootnotes(pages.map((page) => page.blocks));
+    const before: number[] = [];
+    let count = 0;
+    for (const pageNotes of notes) {
+      before.push(count);
+      count += pageNotes.length;
+    }
+    return { footnotes: notes, footnotesBefore: before };
+  }, [pages]);
+
   return (
-    <div className="dopecanvas-paged-view" style={scrollContainerStyle}>
+    <div ref={scrollRef} className="dopecanvas-paged-view" style={scrollContainerStyle}>
+      {/* Footnote markers (also while measuring) */}
+      <style dangerouslySetInnerHTML={{ __html: FOOTNOTE_CSS }} />
+
       {/* Hidden measurement container */}
       <div ref={measureRef} aria-hidden="true" />
 
@@ -893,45 +1003,82 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
             .slice(0, pageIndex)
             .reduce((sum, p) => sum + p.blocks.length, 0);
 
+          // The page's section decides its size, margins and header / footer.
+          // Headers are edited in place only where the document's own apply.
+          const section = sections[pageData.section];
+          const sectionConfig = section?.config ?? pageConfig;
+          const inheritsHeaderFooter =
+            !section || HEADER_FOOTER_KEYS.every((key) => section.overrides[key] === undefined);
+
+          // Off-screen page of a long document: the frame alone
+          if (virtualized && (pageIndex < pageWindow.first || pageIndex > pageWindow.last)) {
+            return (
+              <Page
+                key={`${renderGeneration}-${pageIndex}`}
+                dimensions={resolvePageDimensions(sectionConfig)}
+                margins={resolvePageMargins(sectionConfig.margins)}
+                pageNumber={pageData.pageNumber}
+                totalPages={pages.length}
+                pageIndex={pageIndex}
+                placeholder
+              />
+            );
+          }
+
           return (
             <Page
-              key={pageIndex}
-              dimensions={dimensions}
-              margins={pageConfig.margins}
-              pageNumber={pageIndex + 1}
+              key={`${renderGeneration}-${pageIndex}`}
+              pageIndex={pageIndex}
+              dimensions={resolvePageDimensions(sectionConfig)}
+              margins={resolvePageMargins(sectionConfig.margins)}
+              pageNumber={pageData.pageNumber}
+              firstInSection={pageData.firstInSection}
               totalPages={pages.length}
+              headerFooter={sectionConfig}
+              headerFooterSpace={pageData.headerFooterSpace}
+              footnotes={footnotes[pageIndex]}
+              footnotesBefore={footnotesBefore[pageIndex]}
+              fields={{
+                title: documentTitle,
+                date: fieldDate,
+                section: section?.name || String(pageData.section + 1),
+              }}
+              onHeaderFooterChange={inheritsHeaderFooter ? onPageConfigChange : undefined}
             >
-              {pageData.blocks.map((blockHTML, blockIndex) => {
+              {renderBands(
+                pageData.bands,
+                resolveColumns(sectionConfig).gap,
+                pageData.blocks.map((blockHTML, blockIndex) => {
                 const globalIdx = pageStartIdx + blockIndex;
-                const lower = blockHTML.trim().toLowerCase();
-                const isEditable =
-                  !lower.startsWith('<script') && !lower.startsWith('<style');
+                const node = pageData.nodes[blockIndex];
+                const isEditable = isEditableBlock(blockHTML);
+                const slot = (
+                  <BlockSlot node={node} pageIndex={pageIndex} blockNodes={blockNodes} />
+                );
 
-                const isTable = lower.startsWith('<table');
-                const isPageBreak = isPageBreakBlock(blockHTML);
+                const isSectionBreak = isSectionBreakBlock(blockHTML);
+                const isPageBreak = isSectionBreak || isPageBreakBlock(blockHTML);
 
                 // Page break indicator (when showPageBreaks is on)
                 if (isPageBreak && showPageBreaks) {
                   return (
                     <div
-                      key={`${pageIndex}-${blockIndex}`}
+                      key={blockNodes.key(node)}
                       className="dopecanvas-block-wrapper"
                       style={{ position: 'relative' }}
                     >
                       {/* Hidden original block so DOM collection still picks it up */}
-                      <div
-                        className="dopecanvas-block-content"
-                        style={{ display: 'none' }}
-                        dangerouslySetInnerHTML={{ __html: blockHTML }}
-                      />
+                      <div style={{ display: 'none' }}>{slot}</div>
                       {/* Visual indicator */}
                       <div style={pageBreakIndicatorStyle}>
                         <span style={pageBreakLineStyle} />
-                        <span style={pageBreakLabelStyle}>Page Break</span>
+                        <span style={pageBreakLabelStyle}>
+                          {isSectionBreak ? 'Section Break' : 'Page Break'}
+                        </span>
                         <span style={pageBreakLineStyle} />
                         <button
                           type="button"
-                          title="Remove page break"
+                          title={isSectionBreak ? 'Remove section break' : 'Remove page break'}
                           onClick={() => handleDeleteBlock(globalIdx)}
                           onMouseDown={(e) => e.preventDefault()}
                           style={pageBreakRemoveBtnStyle}
@@ -944,33 +1091,37 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
                 }
 
                 // Page break block when indicator is hidden — still render
-                // the hidden block content so DOM collection works
+                // the block content so it keeps its page position
                 if (isPageBreak) {
                   return (
                     <div
-                      key={`${pageIndex}-${blockIndex}`}
+                      key={blockNodes.key(node)}
                       className="dopecanvas-block-wrapper"
                       style={{ position: 'relative' }}
                     >
-                      <div
-                        className="dopecanvas-block-content"
-                        dangerouslySetInnerHTML={{ __html: blockHTML }}
-                      />
+                      {slot}
                     </div>
                   );
                 }
 
                 return (
                   <div
-                    key={`${pageIndex}-${blockIndex}`}
+                    key={blockNodes.key(node)}
                     className="dopecanvas-block-wrapper"
                     style={{ position: 'relative' }}
-                    onMouseEnter={() => {
+                    onMouseEnter={(e) => {
                       if (!isEditable) return;
                       if (hideTimeoutRef.current) {
                         clearTimeout(hideTimeoutRef.current);
                         hideTimeoutRef.current = null;
                       }
+                      const blockEl = e.currentTarget.querySelector(
+                        '.dopecanvas-block-content'
+                      )?.firstElementChild as HTMLElement | null;
+                      if (blockEl) {
+                        const { avoidBreakInside, keepWithNext } = readBreakAvoidance(blockEl);
+                        setHoveredKeepState({ keepTogether: avoidBreakInside, keepWithNext });
+                      }
                       setHoveredBlockIndex(globalIdx);
                     }}
                     onMouseLeave={() => {
@@ -981,22 +1132,22 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
                       }, 250);
                     }}
                   >
-                    <MemoizedBlockContent
-                      html={blockHTML}
-                      isEditable={isEditable}
-                      isTable={isTable}
-                    />
+                    {slot}
                     {isEditable && (
                       <BlockToolbar
                         visible={hoveredBlockIndex === globalIdx}
                         onAddBelow={() => handleAddBlock(globalIdx)}
                         onEditHTML={() => handleOpenEditor(globalIdx)}
                         onDelete={() => handleDeleteBlock(globalIdx)}
+                        keepTogether={hoveredKeepState.keepTogether}
+                        keepWithNext={hoveredKeepState.keepWithNext}
+                        onToggleKeepTogether={() => handleToggleKeep(globalIdx, 'together')}
+                        onToggleKeepWithNext={() => handleToggleKeep(globalIdx, 'next')}
                       />
                     )}
                   </div>
                 );
-              })}
+              }))}
             </Page>
           );
         })}
@@ -1005,7 +1156,7 @@ export const PagedView = forwardRef<PagedViewHandle, PagedViewProps>(({
         {pages.length === 0 && (
           <Page
             dimensions={dimensions}
-            margins={pageConfig.margins}
+            margins={resolvePageMargins(pageConfig.margins)}
             pageNumber={1}
             totalPages={1}
           >
@@ -1051,6 +1202,17 @@ const pagesWrapperStyle: React.CSSProperties = {
   padding: '24px 0',
 };
 
+// Column layout styles (multi-column pages)
+const columnsStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'flex-start',
+};
+
+const columnStyle: React.CSSProperties = {
+  flex: '1 1 0',
+  minWidth: 0,
+};
+
 // Page break indicator styles
 const pageBreakIndicatorStyle: React.CSSProperties = {
   display: 'flex',
@@ -1,9 +1,36 @@
 // ============================================================
-// PageSetupToolbar — Page size and margin controls
+// PageSetupToolbar — Page size, orientation, margin and header / footer controls
 // ============================================================
 
-import React, { useCallback } from 'react';
-import type { PageConfig, PageSizeName } from '../../core/types';
+import React, { useCallback, useState } from 'react';
+import type {
+  PageConfig,
+  PageMargins,
+  PageDimensions,
+  PageOrientation,
+  PageUnit,
+} from '../../core/types';
+import { resolvePageDimensions } from '../../core/PageLayoutEngine';
+import { getPageSize, listPageSizes } from '../../core/PageSizes';
+import { PAGE_UNITS, formatLength, fromPixels, lengthUnit, toPixels } from '../../core/Units';
+
+/** Size / margin input step per display unit */
+const LENGTH_STEP: Record<PageUnit, number> = {
+  px: 12,
+  mm: 1,
+  cm: 0.1,
+  in: 0.125,
+  pt: 6,
+};
+
+/** Largest margin the inputs offer, in pixels */
+const MAX_MARGIN_PX = 300;
+
+/** Largest custom page side the inputs offer, in pixels (50 inches) */
+const MAX_PAGE_SIDE_PX = 4800;
+
+/** Select value for a page size given as width / height */
+const CUSTOM_SIZE = 'custom';
 
 interface PageSetupToolbarProps {
   pageConfig: PageConfig;
@@ -16,30 +43,89 @@ export const PageSetupToolbar: React.FC<PageSetupToolbarProps> = ({
   pageCount,
   onPageConfigChange,
 }) => {
+  const customSize = typeof pageConfig.size === 'string' ? null : pageConfig.size;
+
+  // Orientation as shown: some presets (ledger, slides, envelopes) are landscape as given
+  const pageDims = resolvePageDimensions(pageConfig);
+  const orientation: PageOrientation = pageDims.width > pageDims.height ? 'landscape' : 'portrait';
+
+  // Unit custom sizes and margins are shown and entered in; starts as the configured unit
+  const [unit, setUnit] = useState<PageUnit>(() =>
+    lengthUnit(customSize?.width ?? pageConfig.margins.top)
+  );
+
   const handleSizeChange = useCallback(
     (e: React.ChangeEvent<HTMLSelectElement>) => {
-      const value = e.target.value as PageSizeName;
-      onPageConfigChange({ size: value });
+      const value = e.target.value;
+      if (value !== CUSTOM_SIZE) {
+        onPageConfigChange({ size: value });
+        return;
+      }
+      // Start the custom size from the page as currently shown
+      const dims = resolvePageDimensions(pageConfig);
+      onPageConfigChange({
+        size: {
+          width: formatLength(fromPixels(dims.width, unit), unit),
+          height: formatLength(fromPixels(dims.height, unit), unit),
+        },
+      });
+    },
+    [pageConfig, unit, onPageConfigChange]
+  );
+
+  const handleCustomSizeChange = useCallback(
+    (side: keyof PageDimensions) =>
+      (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!customSize) return;
+        const value = Math.max(1, parseFloat(e.target.value) || 0);
+        onPageConfigChange({
+          size: { ...customSize, [side]: formatLength(value, unit) },
+        });
+      },
+    [customSize, unit, onPageConfigChange]
+  );
+
+  const handleOrientationChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      onPageConfigChange({ orientation: e.target.value as PageOrientation });
     },
     [onPageConfigChange]
   );
 
   const handleMarginChange = useCallback(
-    (side: keyof typeof pageConfig.margins) =>
+    (side: keyof PageMargins) =>
       (e: React.ChangeEvent<HTMLInputElement>) => {
-        const value = Math.max(0, parseInt(e.target.value) || 0);
+        const value = Math.max(0, parseFloat(e.target.value) || 0);
         onPageConfigChange({
           margins: {
             ...pageConfig.margins,
-            [side]: value,
+            [side]: formatLength(value, unit),
           },
         });
       },
-    [pageConfig.margins, onPageConfigChange]
+    [pageConfig.margins, unit, onPageConfigChange]
+  );
+
+  const handleUnitChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    setUnit(e.target.value as PageUnit);
+  }, []);
+
+  const marginValue = (side: keyof PageMargins) =>
+    fromPixels(toPixels(pageConfig.margins[side]), unit);
+
+  const handleToggle = useCallback(
+    (option: 'differentFirstPage' | 'differentOddEven') =>
+      (e: React.ChangeEvent<HTMLInputElement>) => {
+        onPageConfigChange({ [option]: e.target.checked });
+      },
+    [onPageConfigChange]
   );
 
-  const currentSize =
-    typeof pageConfig.size === 'string' ? pageConfig.size : 'custom';
+  // Unknown preset names render as Letter (see resolvePageDimensions)
+  let currentSize = CUSTOM_SIZE;
+  if (typeof pageConfig.size === 'string') {
+    currentSize = getPageSize(pageConfig.size) ? pageConfig.size : 'letter';
+  }
 
   return (
     <div style={sectionStyle}>
@@ -51,36 +137,89 @@ export const PageSetupToolbar: React.FC<PageSetupToolbarProps> = ({
           onChange={handleSizeChange}
           style={selectStyle}
         >
-          <option value="letter">Letter (8.5 x 11)</option>
-          <option value="a4">A4 (210 x 297mm)</option>
-          <option value="legal">Legal (8.5 x 14)</option>
+          {listPageSizes().map((preset) => (
+            <option key={preset.name} value={preset.name}>{preset.label}</option>
+          ))}
+          <option value={CUSTOM_SIZE}>Custom…</option>
         </select>
       </label>
+      {customSize && (
+        <>
+          <LengthInput
+            label="W"
+            title="Page width"
+            value={fromPixels(toPixels(customSize.width), unit)}
+            unit={unit}
+            max={MAX_PAGE_SIDE_PX}
+            onChange={handleCustomSizeChange('width')}
+          />
+          <LengthInput
+            label="H"
+            title="Page height"
+            value={fromPixels(toPixels(customSize.height), unit)}
+            unit={unit}
+            max={MAX_PAGE_SIDE_PX}
+            onChange={handleCustomSizeChange('height')}
+          />
+        </>
+      )}
+      <select
+        value={unit}
+        onChange={handleUnitChange}
+        style={selectStyle}
+        title="Units for page size and margins"
+      >
+        {PAGE_UNITS.map((u) => (
+          <option key={u} value={u}>{u}</option>
+        ))}
+      </select>
+
+      {/* Orientation */}
+      <select
+        value={orientation}
+        onChange={handleOrientationChange}
+        style={selectStyle}
+        title="Page orientation"
+      >
+        <option value="portrait">Portrait</option>
+        <option value="landscape">Landscape</option>
+      </select>
 
       <div style={dividerStyle} />
 
       {/* Margins */}
-      <span style={{ fontSize: '12px', color: '#666' }}>Margins (px):</span>
-      <MarginInput
-        label="T"
-        value={pageConfig.margins.top}
-        onChange={handleMarginChange('top')}
-      />
-      <MarginInput
-        label="R"
-        value={pageConfig.margins.right}
-        onChange={handleMarginChange('right')}
-      />
-      <MarginInput
-        label="B"
-        value={pageConfig.margins.bottom}
-        onChange={handleMarginChange('bottom')}
-      />
-      <MarginInput
-        label="L"
-        value={pageConfig.margins.left}
-        onChange={handleMarginChange('left')}
-      />
+      <span style={{ fontSize: '12px', color: '#666' }}>Margins:</span>
+      {(['top', 'right', 'bottom', 'left'] as const).map((side) => (
+        <LengthInput
+          key={side}
+          label={side[0].toUpperCase()}
+          title={`${side[0].toUpperCase()}${side.slice(1)} margin`}
+          value={marginValue(side)}
+          unit={unit}
+          max={MAX_MARGIN_PX}
+          onChange={handleMarginChange(side)}
+        />
+      ))}
+
+      <div style={dividerStyle} />
+
+      {/* Header / footer variants */}
+      <label style={labelStyle} title="Use a separate header and footer on the first page">
+        <input
+          type="checkbox"
+          checked={!!pageConfig.differentFirstPage}
+          onChange={handleToggle('differentFirstPage')}
+        />
+        Different first page
+      </label>
+      <label style={labelStyle} title="Use separate headers and footers on even pages">
+        <input
+          type="checkbox"
+          checked={!!pageConfig.differentOddEven}
+          onChange={handleToggle('differentOddEven')}
+        />
+        Different odd &amp; even
+      </label>
 
       <div style={dividerStyle} />
 
@@ -93,17 +232,22 @@ export const PageSetupToolbar: React.FC<PageSetupToolbarProps> = ({
 };
 
 // ----------------------------------------------------------
-// MarginInput sub-component
+// LengthInput sub-component (margins and custom page size)
 // ----------------------------------------------------------
 
-interface MarginInputProps {
+interface LengthInputProps {
   label: string;
+  title: string;
+  /** Length in `unit` */
   value: number;
+  unit: PageUnit;
+  /** Upper bound in pixels */
+  max: number;
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
-const MarginInput: React.FC<MarginInputProps> = ({ label, value, onChange }) => (
-  <label style={marginLabelStyle} title={`${label} margin`}>
+const LengthInput: React.FC<LengthInputProps> = ({ label, title, value, unit, max, onChange }) => (
+  <label style={marginLabelStyle} title={title}>
     {label}:
     <input
       type="number"
@@ -111,8 +255,8 @@ const MarginInput: React.FC<MarginInputProps> = ({ label, value, onChange }) =>
       onChange={onChange}
       style={marginInputStyle}
       min={0}
-      max={300}
-      step={12}
+      max={fromPixels(max, unit)}
+      step={LENGTH_STEP[unit]}
     />
   </label>
 );
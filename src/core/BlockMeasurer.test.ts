@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DeterministicBlockMeasurer } from './BlockMeasurer';
+import { PageLayoutEngine } from './PageLayoutEngine';
+import { recombineSplitBlocks, trySplitBlock } from './BlockSplitter';
+
+// 10px text at 0.5em per character: 5px per character, 20px lines
+const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2, width: 100 });
+
+function mount(html: string, width = 100): HTMLElement {
+  const host = document.createElement('div');
+  host.style.width = `${width}px`;
+  host.innerHTML = html;
+  document.body.appendChild(host);
+  return host.firstElementChild as HTMLElement;
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('DeterministicBlockMeasurer', () => {
+  it('wraps words at the block width', () => {
+    // Each 9-character word plus a space fills half a 100px line
+    const p = mount('<p style="margin: 0">aaaaaaaaa bbbbbbbbb ccccccccc ddddddddd eeeeeeeee</p>');
+
+    expect(measurer.measureLines(p)).toEqual([
+      { top: 0, bottom: 20 },
+      { top: 20, bottom: 40 },
+      { top: 40, bottom: 60 },
+    ]);
+    expect(measurer.measureHeight(p)).toBe(60);
+
+    const start = measurer.positionAt(p, 30)!;
+    expect(start.node.data.slice(start.offset)).toBe('eeeeeeeee');
+  });
+
+  it('adds padding, borders and margins, with user-agent defaults', () => {
+    const div = mount('<div style="padding: 5px; border: 1px solid; margin: 8px 0">Text</div>');
+    expect(measurer.measureHeight(div)).toBe(8 + 1 + 5 + 20 + 5 + 1 + 8);
+
+    // <h1>: 2em text with 0.67em margins
+    const h1 = mount('<h1>Title</h1>');
+    expect(measurer.measureHeight(h1)).toBeCloseTo(13.4 + 40 + 13.4);
+  });
+
+  it('keeps preformatted lines and stacks table rows', () => {
+    const pre = mount('<pre style="margin: 0">one\n\nthree\n</pre>');
+    expect(measurer.measureLines(pre)).toHaveLength(3);
+
+    const table = mount(
+      '<table><tr><td style="padding: 0">a</td><td style="padding: 0">aaaaaaaaaaaaaa</td></tr>' +
+        '<tr><td style="padding: 0">b</td></tr></table>'
+    );
+    const [first, second] = Array.from((table as HTMLTableElement).rows);
+    // The second cell is 50px wide: its 70px word overflows on one line
+    expect(measurer.measureBottom(table, first)).toBe(20);
+    expect(measurer.measureBottom(table, second)).toBe(40);
+  });
+
+  it('lets the splitter cut text at line boundaries without a layout engine', () => {
+    const words = Array.from({ length: 10 }, (_, i) => `${i}`.repeat(9)).join(' ');
+    const p = mount(`<p style="margin: 0">${words}</p>`);
+
+    // Five 20px lines; 50px fits two of them
+    const result = trySplitBlock(p, 50, { measurer });
+    expect(result).not.toBeNull();
+    expect(recombineSplitBlocks([result!.firstHTML, result!.secondHTML])).toHaveLength(1);
+
+    const first = mount(result!.firstHTML);
+    expect(first.textContent!.trim().split(' ')).toHaveLength(4);
+  });
+
+  it('gives pagination real page counts under jsdom', () => {
+    const engine = new PageLayoutEngine(
+      { size: { width: 300, height: 200 }, margins: { top: 0, right: 0, bottom: 0, left: 0 } },
+      new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2 })
+    );
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+
+    // Twelve 20px paragraphs with 10px margins: five 40px blocks per page
+    const html = Array.from({ length: 12 }, (_, i) => `<p>Paragraph ${i + 1}</p>`).join('');
+    const result = engine.paginateDocument(container, html);
+
+    expect(result.pageCount).toBe(3);
+    expect(result.pages.map((page) => page.blockIndices.length)).toEqual([5, 5, 2]);
+    expect(engine.paginateDocument(container, html)).toEqual(result);
+  });
+});
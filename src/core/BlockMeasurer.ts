@@ -0,0 +1,646 @@
+// ============================================================
+// BlockMeasurer — Geometry for pagination and block splitting
+// ============================================================
+// Pagination needs five pieces of geometry: how tall a block is,
+// where a child ends inside it, where its lines of text fall, which
+// text position starts a line, and how wide a table's columns are
+// (kept by every part of a split table). PageLayoutEngine and
+// BlockSplitter ask a BlockMeasurer for them, so the layout backend
+// can be swapped:
+//
+// - DomBlockMeasurer (the default) reads the browser's layout via
+//   getBoundingClientRect and the Range API.
+// - DeterministicBlockMeasurer estimates the layout from font size,
+//   line-height, padding, borders and widths. It needs no rendering
+//   engine, so pagination, splitting and page counts can be tested
+//   under jsdom or Node — and a document always gives the same pages.
+// ============================================================
+
+import type { BlockMeasurer, LineBox, TextPosition } from './types';
+import { parseLength } from './Units';
+
+// ----------------------------------------------------------
+// Browser layout
+// ----------------------------------------------------------
+
+/** Measures with the browser's layout. Elements must be in the document. */
+export class DomBlockMeasurer implements BlockMeasurer {
+  measureHeight(element: HTMLElement): number {
+    const style = window.getComputedStyle(element);
+    const marginTop = parseFloat(style.marginTop) || 0;
+    const marginBottom = parseFloat(style.marginBottom) || 0;
+    return element.getBoundingClientRect().height + marginTop + marginBottom;
+  }
+
+  measureBottom(block: HTMLElement, descendant: Element): number {
+    const marginBottom = parseFloat(window.getComputedStyle(descendant).marginBottom) || 0;
+    return descendant.getBoundingClientRect().bottom + marginBottom - block.getBoundingClientRect().top;
+  }
+
+  /**
+   * Group the client rects of the block's text into line boxes.
+   * Rects whose vertical centre falls inside an existing line (e.g. a
+   * larger inline span on the same line) are merged into it.
+   */
+  measureLines(block: HTMLElement): LineBox[] {
+    const blockTop = block.getBoundingClientRect().top;
+    const rects: DOMRect[] = [];
+    for (const textNode of textNodesOf(block)) {
+      const range = document.createRange();
+      range.selectNodeContents(textNode);
+      for (const rect of Array.from(range.getClientRects())) {
+        if (rect.height > 0) rects.push(rect);
+      }
+    }
+    rects.sort((a, b) => a.top - b.top);
+
+    const lines: LineBox[] = [];
+    for (const rect of rects) {
+      const top = rect.top - blockTop;
+      const bottom = rect.bottom - blockTop;
+      const centre = (top + bottom) / 2;
+      const line = lines[lines.length - 1];
+      if (line && centre >= line.top && centre <= line.bottom) {
+        line.top = Math.min(line.top, top);
+        line.bottom = Math.max(line.bottom, bottom);
+      } else {
+        lines.push({ top, bottom });
+      }
+    }
+    return lines;
+  }
+
+  positionAt(block: HTMLElement, y: number): TextPosition | null {
+    const blockTop = block.getBoundingClientRect().top;
+
+    for (const textNode of textNodesOf(block)) {
+      const range = document.createRange();
+      range.selectNodeContents(textNode);
+      const nodeRect = range.getBoundingClientRect();
+
+      // If this entire text node is above the boundary, skip
+      if (nodeRect.bottom - blockTop <= y) continue;
+
+      // If this entire text node starts below the boundary, split before it
+      if (nodeRect.top - blockTop >= y) return { node: textNode, offset: 0 };
+
+      // This text node crosses the boundary — binary search within it
+      let lo = 0;
+      let hi = textNode.length;
+      while (lo < hi) {
+        const mid = Math.floor((lo + hi) / 2);
+        const r = document.createRange();
+        r.setStart(textNode, mid);
+        r.collapse(true);
+        if (r.getBoundingClientRect().top - blockTop >= y) {
+          hi = mid;
+        } else {
+          lo = mid + 1;
+        }
+      }
+      return { node: textNode, offset: lo };
+    }
+    return null;
+  }
+
+  /** Widths of the cells spanning one column, by column; rowspans are not followed */
+  measureColumnWidths(table: HTMLTableElement): number[] {
+    const widths: number[] = [];
+    for (const row of Array.from(table.rows)) {
+      let column = 0;
+      for (const cell of Array.from(row.cells)) {
+        if (cell.colSpan === 1 && widths[column] === undefined) {
+          widths[column] = cell.getBoundingClientRect().width;
+        }
+        column += cell.colSpan;
+      }
+    }
+    return Array.from(widths, (width) => width ?? 0);
+  }
+}
+
+/** All text nodes inside a root, in document order */
+function textNodesOf(root: Node): Text[] {
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+}
+
+// ----------------------------------------------------------
+// Deterministic layout
+// ----------------------------------------------------------
+
+/** Settings of the deterministic measurer's text model */
+export interface DeterministicMeasurerOptions {
+  /** Font size (px) of text that sets none (default 16) */
+  fontSize?: number;
+  /** `line-height: normal`, as a multiple of the font size (default 1.2) */
+  lineHeight?: number;
+  /** Average character width, as a multiple of the font size (default 0.5) */
+  charWidth?: number;
+  /** Width (px) of a block with no sized ancestor (default 624: Letter, 1in margins) */
+  width?: number;
+}
+
+/** Inherited text settings while walking a block */
+interface TextStyle {
+  fontSize: number;
+  /** Line height in px, or as a multiple of the font size */
+  lineHeight: { px: number } | { factor: number };
+  /** Newlines break lines (`white-space: pre`, `pre-wrap`, `pre-line`) */
+  preserveBreaks: boolean;
+  /** Long lines wrap (all but `pre` / `nowrap`) */
+  wrap: boolean;
+}
+
+/** Box edges of an element, in px */
+interface BoxMetrics {
+  marginTop: number;
+  marginBottom: number;
+  marginLeft: number;
+  marginRight: number;
+  /** Border + padding above / below / beside the content */
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  /** Set border-box width, if any */
+  width: number | null;
+  /** Set content height, if any */
+  height: number | null;
+}
+
+/** A word (or preserved line segment) to place on a line */
+interface InlineToken {
+  width: number;
+  height: number;
+  /** Width of the white space before it (0 without) */
+  space: number;
+  /** Forced line break (`<br>`, newline in preformatted text) */
+  lineBreak?: boolean;
+  position?: TextPosition;
+}
+
+/** Laid-out geometry of one block */
+interface BlockLayout {
+  /** Border-box height */
+  height: number;
+  /** Margin-box bottom of each block-level element inside */
+  bottoms: Map<Element, number>;
+  lines: Array<LineBox & { start: TextPosition | null }>;
+}
+
+/** Root font size for `rem` lengths */
+const ROOT_FONT_SIZE = 16;
+
+/** Default size of replaced content (images, canvases, …) without one, as in CSS */
+const DEFAULT_REPLACED_HEIGHT = 150;
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'CAPTION', 'DD', 'DETAILS', 'DIV', 'DL',
+  'DT', 'FIELDSET', 'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4',
+  'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION',
+  'SUMMARY', 'TABLE', 'UL',
+]);
+
+const BLOCK_DISPLAYS = new Set(['block', 'flex', 'grid', 'list-item', 'table', 'flow-root']);
+
+const REPLACED_TAGS = new Set([
+  'IMG', 'VIDEO', 'CANVAS', 'IFRAME', 'SVG', 'OBJECT', 'EMBED',
+]);
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'TITLE', 'META', 'LINK']);
+
+/** User-agent font sizes, in em */
+const UA_FONT_SCALE: Record<string, number> = {
+  H1: 2, H2: 1.5, H3: 1.17, H5: 0.83, H6: 0.67, SMALL: 0.83, SUB: 0.83, SUP: 0.83,
+};
+
+/** User-agent vertical margins, in em */
+const UA_MARGIN_EM: Record<string, number> = {
+  P: 1, H1: 0.67, H2: 0.83, H3: 1, H4: 1.33, H5: 1.67, H6: 2.33,
+  UL: 1, OL: 1, DL: 1, BLOCKQUOTE: 1, PRE: 1, FIGURE: 1, HR: 0.5,
+};
+
+/**
+ * Estimates layout without a rendering engine. Text is broken into
+ * lines word by word at an average character width; line heights,
+ * padding, borders, margins and widths come from each element's
+ * style (or user-agent defaults for the common tags). Margins do not
+ * collapse, and flex / grid containers stack their children.
+ */
+export class DeterministicBlockMeasurer implements BlockMeasurer {
+  private options: Required<DeterministicMeasurerOptions>;
+  /** Last layout, reused while the same block is measured repeatedly (splitting) */
+  private cached: { block: HTMLElement; html: string; width: number; layout: BlockLayout } | null =
+    null;
+
+  constructor(options: DeterministicMeasurerOptions = {}) {
+    this.options = {
+      fontSize: 16,
+      lineHeight: 1.2,
+      charWidth: 0.5,
+      width: 624,
+      ...options,
+    };
+  }
+
+  measureHeight(element: HTMLElement): number {
+    const { text, containerWidth } = this.resolveContext(element);
+    const box = this.boxMetrics(element, text.fontSize, containerWidth);
+    return this.layout(element).height + box.marginTop + box.marginBottom;
+  }
+
+  measureBottom(block: HTMLElement, descendant: Element): number {
+    const layout = this.layout(block);
+    return layout.bottoms.get(descendant) ?? layout.height;
+  }
+
+  measureLines(block: HTMLElement): LineBox[] {
+    return this.layout(block).lines.map(({ top, bottom }) => ({ top, bottom }));
+  }
+
+  positionAt(block: HTMLElement, y: number): TextPosition | null {
+    const line = this.layout(block).lines.find((l) => l.start && l.top >= y);
+    return line?.start ?? null;
+  }
+
+  /** Columns share the table's content width evenly (as in layoutTable) */
+  measureColumnWidths(table: HTMLTableElement): number[] {
+    const { text, containerWidth } = this.resolveContext(table);
+    const box = this.boxMetrics(table, text.fontSize, containerWidth);
+    const width = box.width ?? Math.max(0, containerWidth - box.marginLeft - box.marginRight);
+    const columns = this.columnCount(Array.from(table.rows).filter((row) => !this.isHidden(row)));
+    return Array(columns).fill(Math.max(0, width - box.left - box.right) / columns);
+  }
+
+  // ----------------------------------------------------------
+  // Layout
+  // ----------------------------------------------------------
+
+  private layout(block: HTMLElement): BlockLayout {
+    const { text, containerWidth } = this.resolveContext(block);
+    const box = this.boxMetrics(block, text.fontSize, containerWidth);
+    const width = box.width ?? Math.max(0, containerWidth - box.marginLeft - box.marginRight);
+
+    const html = block.outerHTML;
+    const cached = this.cached;
+    if (cached && cached.block === block && cached.html === html && cached.width === width) {
+      return cached.layout;
+    }
+
+    const layout: BlockLayout = { height: 0, bottoms: new Map(), lines: [] };
+    layout.height = this.layoutBox(block, box, text, 0, width, layout);
+    layout.lines.sort((a, b) => a.top - b.top);
+    this.cached = { block, html, width, layout };
+    return layout;
+  }
+
+  /** Lay out an element's border box from `top`; returns its bottom */
+  private layoutBox(
+    el: Element,
+    box: BoxMetrics,
+    text: TextStyle,
+    top: number,
+    width: number,
+    out: BlockLayout
+  ): number {
+    const innerWidth = Math.max(0, width - box.left - box.right);
+    const contentTop = top + box.top;
+    let y = contentTop;
+
+    if (REPLACED_TAGS.has(el.tagName.toUpperCase())) {
+      y += this.replacedHeight(el, text);
+    } else if (el.tagName === 'TABLE') {
+      y = this.layoutTable(el as HTMLTableElement, y, innerWidth, text, out);
+    } else {
+      y = this.layoutFlow(el, y, innerWidth, text, out);
+    }
+
+    if (box.height !== null) y = contentTop + box.height;
+    return y + box.bottom;
+  }
+
+  /** Stack block children; runs of inline content between them become lines */
+  private layoutFlow(el: Element, top: number, width: number, text: TextStyle, out: BlockLayout): number {
+    let y = top;
+    let run: Node[] = [];
+    const flush = () => {
+      if (run.length > 0) y = this.layoutInline(run, y, width, text, out);
+      run = [];
+    };
+
+    for (const child of Array.from(el.childNodes)) {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        const childEl = child as Element;
+        if (this.isHidden(childEl)) continue;
+        if (this.isBlock(childEl)) {
+          flush();
+          const childText = this.textStyle(childEl, text);
+          const box = this.boxMetrics(childEl, childText.fontSize, width);
+          const childWidth = box.width ?? Math.max(0, width - box.marginLeft - box.marginRight);
+          y = this.layoutBox(childEl, box, childText, y + box.marginTop, childWidth, out) + box.marginBottom;
+          out.bottoms.set(childEl, y);
+          continue;
+        }
+      }
+      run.push(child);
+    }
+    flush();
+    return y;
+  }
+
+  /** Rows as tall as their tallest cell; columns share the width evenly */
+  private layoutTable(
+    table: HTMLTableElement,
+    top: number,
+    width: number,
+    text: TextStyle,
+    out: BlockLayout
+  ): number {
+    let y = top;
+
+    if (table.caption && !this.isHidden(table.caption)) {
+      const captionText = this.textStyle(table.caption, text);
+      const box = this.boxMetrics(table.caption, captionText.fontSize, width);
+      y = this.layoutBox(table.caption, box, captionText, y + box.marginTop, width, out) + box.marginBottom;
+      out.bottoms.set(table.caption, y);
+    }
+
+    const rows = Array.from(table.rows).filter((row) => !this.isHidden(row));
+    const columnWidth = width / this.columnCount(rows);
+
+    for (const row of rows) {
+      const rowText = this.textStyle(row, text);
+      let rowHeight = 0;
+      for (const cell of Array.from(row.cells)) {
+        const cellText = this.textStyle(cell, rowText);
+        const cellWidth = columnWidth * cell.colSpan;
+        const box = this.boxMetrics(cell, cellText.fontSize, cellWidth);
+        rowHeight = Math.max(rowHeight, this.layoutBox(cell, box, cellText, y, cellWidth, out) - y);
+      }
+      y += rowHeight;
+      out.bottoms.set(row, y);
+    }
+    return y;
+  }
+
+  /** Break inline content into lines; returns the bottom of the last line */
+  private layoutInline(nodes: Node[], top: number, width: number, text: TextStyle, out: BlockLayout): number {
+    const tokens: InlineToken[] = [];
+    const state = { space: false };
+    for (const node of nodes) this.collectTokens(node, text, tokens, state);
+
+    const strut = lineHeightOf(text);
+    let y = top;
+    let line: InlineToken[] = [];
+    let x = 0;
+    const endLine = (forced: boolean) => {
+      if (line.length === 0 && !forced) return;
+      const height = Math.max(strut, ...line.map((t) => t.height));
+      const start = line.find((t) => t.position)?.position ?? null;
+      out.lines.push({ top: y, bottom: y + height, start });
+      y += height;
+      line = [];
+      x = 0;
+    };
+
+    for (const token of tokens) {
+      if (token.lineBreak) {
+        endLine(true);
+        continue;
+      }
+      const spaceWidth = x > 0 ? token.space : 0;
+      if (x > 0 && x + spaceWidth + token.width > width && text.wrap) {
+        endLine(false);
+        x = token.width;
+      } else {
+        x += spaceWidth + token.width;
+      }
+      line.push(token);
+    }
+    endLine(false);
+    return y;
+  }
+
+  private collectTokens(node: Node, text: TextStyle, tokens: InlineToken[], state: { space: boolean }): void {
+    if (node.nodeType === Node.TEXT_NODE) {
+      this.textTokens(node as Text, text, tokens, state);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const el = node as Element;
+    if (this.isHidden(el)) return;
+    const elText = this.textStyle(el, text);
+    if (el.tagName === 'BR') {
+      tokens.push({ width: 0, height: lineHeightOf(elText), space: 0, lineBreak: true });
+      state.space = false;
+      return;
+    }
+    if (REPLACED_TAGS.has(el.tagName.toUpperCase())) {
+      const height = this.replacedHeight(el, elText);
+      const width = lengthAttr(el, 'width') ?? height * 2;
+      tokens.push({ width, height, space: state.space ? elText.fontSize * this.options.charWidth : 0 });
+      state.space = false;
+      return;
+    }
+    for (const child of Array.from(el.childNodes)) this.collectTokens(child, elText, tokens, state);
+  }
+
+  private textTokens(node: Text, text: TextStyle, tokens: InlineToken[], state: { space: boolean }): void {
+    const charWidth = text.fontSize * this.options.charWidth;
+    const height = lineHeightOf(text);
+    const data = node.data;
+
+    if (!text.preserveBreaks) {
+      let last = 0;
+      for (const match of data.matchAll(/\S+/g)) {
+        const space = state.space || /\s/.test(data.slice(last, match.index)) ? charWidth : 0;
+        tokens.push({ width: match[0].length * charWidth, height, space, position: { node, offset: match.index } });
+        state.space = false;
+        last = match.index + match[0].length;
+      }
+      if (last < data.length) state.space = true;
+      return;
+    }
+
+    // Preformatted: each segment starts at a zero-width anchor so that
+    // empty lines have a position too
+    let offset = 0;
+    data.split('\n').forEach((segment, i, segments) => {
+      if (i > 0) tokens.push({ width: 0, height, space: 0, lineBreak: true });
+      if (segment.length === 0 && i === segments.length - 1) return;
+      tokens.push({ width: 0, height, space: 0, position: { node, offset } });
+      if (text.wrap) {
+        for (const match of segment.matchAll(/\S+/g)) {
+          tokens.push({
+            width: match[0].length * charWidth,
+            height,
+            space: match.index > 0 ? charWidth : 0,
+            position: { node, offset: offset + match.index },
+          });
+        }
+      } else {
+        tokens.push({ width: segment.length * charWidth, height, space: 0 });
+      }
+      offset += segment.length + 1;
+    });
+    state.space = false;
+  }
+
+  private replacedHeight(el: Element, text: TextStyle): number {
+    const style = window.getComputedStyle(el);
+    return (
+      lengthToPx(style.height, text.fontSize) ??
+      lengthAttr(el, 'height') ??
+      DEFAULT_REPLACED_HEIGHT
+    );
+  }
+
+  // ----------------------------------------------------------
+  // Style
+  // ----------------------------------------------------------
+
+  /** Text style of an element and the width of its container, from the document root down */
+  private resolveContext(element: Element): { text: TextStyle; containerWidth: number } {
+    const chain: Element[] = [];
+    for (let el = element.parentElement; el; el = el.parentElement) chain.unshift(el);
+
+    let text: TextStyle = {
+      fontSize: this.options.fontSize,
+      lineHeight: { factor: this.options.lineHeight },
+      preserveBreaks: false,
+      wrap: true,
+    };
+    let width = this.options.width;
+    for (const el of chain) {
+      text = this.textStyle(el, text);
+      const box = this.boxMetrics(el, text.fontSize, width);
+      const outer = box.width ?? Math.max(0, width - box.marginLeft - box.marginRight);
+      width = Math.max(0, outer - box.left - box.right);
+    }
+    return { text: this.textStyle(element, text), containerWidth: width };
+  }
+
+  private textStyle(el: Element, parent: TextStyle): TextStyle {
+    const style = window.getComputedStyle(el);
+    const fontSize =
+      lengthToPx(style.fontSize, parent.fontSize, parent.fontSize) ??
+      parent.fontSize * (UA_FONT_SCALE[el.tagName] ?? 1);
+
+    let lineHeight = parent.lineHeight;
+    const declared = style.lineHeight.trim();
+    if (declared === 'normal') {
+      lineHeight = { factor: this.options.lineHeight };
+    } else if (/^\d*\.?\d+$/.test(declared)) {
+      lineHeight = { factor: parseFloat(declared) };
+    } else {
+      const px = lengthToPx(declared, fontSize, fontSize);
+      if (px !== null) lineHeight = { px };
+    }
+
+    let { preserveBreaks, wrap } = parent;
+    const whiteSpace = style.whiteSpace.trim() || (el.tagName === 'PRE' ? 'pre' : '');
+    if (whiteSpace) {
+      preserveBreaks = ['pre', 'pre-wrap', 'pre-line', 'break-spaces'].includes(whiteSpace);
+      wrap = whiteSpace !== 'pre' && whiteSpace !== 'nowrap';
+    }
+    return { fontSize, lineHeight, preserveBreaks, wrap };
+  }
+
+  /** Box edges of an element inside a container of `containerWidth` */
+  private boxMetrics(el: Element, fontSize: number, containerWidth: number): BoxMetrics {
+    const style = window.getComputedStyle(el);
+    const tag = el.tagName;
+    const length = (value: string, fallback = 0) =>
+      lengthToPx(value, fontSize, containerWidth) ?? fallback;
+    const border = (side: 'top' | 'right' | 'bottom' | 'left') => {
+      const borderStyle = style.getPropertyValue(`border-${side}-style`);
+      if (borderStyle === 'none' || borderStyle === 'hidden') return 0;
+      const fallback = tag === 'HR' && (side === 'top' || side === 'bottom') ? 1 : 0;
+      return length(style.getPropertyValue(`border-${side}-width`), fallback);
+    };
+
+    const uaMargin = (UA_MARGIN_EM[tag] ?? 0) * fontSize;
+    const uaIndent = tag === 'BLOCKQUOTE' || tag === 'FIGURE' ? 40 : 0;
+    const uaPadding = tag === 'TD' || tag === 'TH' ? 1 : 0;
+    const paddingLeft = length(style.paddingLeft, tag === 'UL' || tag === 'OL' ? 40 : uaPadding);
+
+    const box: BoxMetrics = {
+      marginTop: length(style.marginTop, uaMargin),
+      marginBottom: length(style.marginBottom, uaMargin),
+      marginLeft: length(style.marginLeft, uaIndent),
+      marginRight: length(style.marginRight, uaIndent),
+      top: border('top') + length(style.paddingTop, uaPadding),
+      bottom: border('bottom') + length(style.paddingBottom, uaPadding),
+      left: border('left') + paddingLeft,
+      right: border('right') + length(style.paddingRight, uaPadding),
+      width: null,
+      height: null,
+    };
+
+    const borderBox = style.boxSizing === 'border-box';
+    const width = lengthToPx(style.width, fontSize, containerWidth);
+    if (width !== null) box.width = borderBox ? width : width + box.left + box.right;
+    const height = lengthToPx(style.height, fontSize);
+    if (height !== null && !REPLACED_TAGS.has(tag.toUpperCase())) {
+      box.height = borderBox ? Math.max(0, height - box.top - box.bottom) : height;
+    }
+    return box;
+  }
+
+  /** Columns of a table: its widest row, counting spans */
+  private columnCount(rows: HTMLTableRowElement[]): number {
+    return Math.max(
+      1,
+      ...rows.map((row) => Array.from(row.cells).reduce((sum, cell) => sum + cell.colSpan, 0))
+    );
+  }
+
+  private isHidden(el: Element): boolean {
+    return (
+      SKIPPED_TAGS.has(el.tagName) ||
+      el.hasAttribute('hidden') ||
+      window.getComputedStyle(el).display === 'none'
+    );
+  }
+
+  private isBlock(el: Element): boolean {
+    const display = window.getComputedStyle(el).display;
+    if (BLOCK_DISPLAYS.has(display)) return true;
+    return !display.startsWith('inline') && BLOCK_TAGS.has(el.tagName);
+  }
+}
+
+// ----------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------
+
+/**
+ * A CSS length in px (em relative to `fontSize`, % of `percentOf`),
+ * or null for empty, `auto` and other keywords.
+ */
+function lengthToPx(value: string, fontSize: number, percentOf?: number): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (trimmed.endsWith('%')) {
+    return percentOf === undefined ? null : (parseFloat(trimmed) / 100) * percentOf;
+  }
+  const relative = /^(-?\d*\.?\d+)(em|rem)$/.exec(trimmed);
+  if (relative) {
+    return parseFloat(relative[1]) * (relative[2] === 'em' ? fontSize : ROOT_FONT_SIZE);
+  }
+  return parseLength(trimmed);
+}
+
+/** A numeric width / height attribute, in px */
+function lengthAttr(el: Element, name: 'width' | 'height'): number | null {
+  const value = parseFloat(el.getAttribute(name) ?? '');
+  return isFinite(value) ? value : null;
+}
+
+function lineHeightOf(text: TextStyle): number {
+  return 'px' in text.lineHeight ? text.lineHeight.px : text.lineHeight.factor * text.fontSize;
+}
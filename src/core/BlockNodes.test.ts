@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BlockNodes, BLOCK_DISPOSE_EVENT, BLOCK_RELOCATE_EVENT } from './BlockNodes';
+
+describe('BlockNodes', () => {
+  it('reuses the nodes showing a block and disposes the rest', () => {
+    const blockNodes = new BlockNodes();
+    const [[a, b, c]] = blockNodes.assign([['<p>A</p>', '<p>B</p>', '<p>C</p>']], []);
+    const onDispose = vi.fn();
+    b.addEventListener(BLOCK_DISPOSE_EVENT, onDispose);
+
+    // B was deleted, D inserted; A and C moved to two pages
+    const [[a2, d], [c2]] = blockNodes.assign([['<p>A</p>', '<p>D</p>'], ['<p>C</p>']], [a, b, c]);
+    expect(a2).toBe(a);
+    expect(c2).toBe(c);
+    expect(d.innerHTML).toBe('<p>D</p>');
+    expect(onDispose).toHaveBeenCalledTimes(1);
+    expect(blockNodes.key(a2)).toBe(blockNodes.key(a));
+    expect(blockNodes.key(d)).not.toBe(blockNodes.key(a));
+  });
+
+  it('makes new nodes editable except scripts and styles, tables per cell', () => {
+    const blockNodes = new BlockNodes();
+    const [[p, script, table]] = blockNodes.assign(
+      [['<p>A</p>', '<script>run()</script>', '<table><tbody><tr><td>1</td></tr></tbody></table>']],
+      []
+    );
+    expect(p.contentEditable).toBe('true');
+    expect(script.getAttribute('contenteditable')).toBeNull();
+    expect(table.getAttribute('contenteditable')).toBeNull();
+    expect(table.querySelector('td')!.contentEditable).toBe('true');
+  });
+
+  it('tells a node when it moves to another page', () => {
+    const blockNodes = new BlockNodes();
+    const [[node]] = blockNodes.assign([['<p>A</p>']], []);
+    const onRelocate = vi.fn();
+    node.addEventListener(BLOCK_RELOCATE_EVENT, onRelocate);
+
+    blockNodes.place(node, 0);
+    blockNodes.place(node, 0);
+    expect(onRelocate).not.toHaveBeenCalled();
+
+    blockNodes.place(node, 2);
+    expect(onRelocate).toHaveBeenCalledTimes(1);
+    expect((onRelocate.mock.calls[0][0] as CustomEvent).detail).toEqual({ page: 2, previousPage: 0 });
+  });
+});
@@ -0,0 +1,134 @@
+// ============================================================
+// BlockNodes — Live block nodes kept across re-pagination
+// ============================================================
+// Each block (or split block part) on a page is shown by one
+// content node: a `.dopecanvas-block-content` div holding the
+// block. The node is created once and then moved between pages as
+// pagination changes — never re-created — so edits, listeners and
+// the state of scripts that ran inside it (charts, recalc()
+// closures) survive re-pagination.
+//
+// After each layout, `assign` hands out nodes for the new pages:
+// a node whose content is exactly a block's HTML is reused for
+// it; other blocks (new, edited from outside, re-split) get fresh
+// nodes, and nodes left over are disposed.
+//
+// Scripts opt into lifecycle events dispatched on their node:
+//
+//   const block = document.currentScript.closest('.dopecanvas-block-content');
+//   block.addEventListener('dopecanvas:relocate', (e) => chart.resize());
+//   block.addEventListener('dopecanvas:dispose', () => chart.destroy());
+// ============================================================
+
+/** Dispatched on a block node moved to another page (detail: BlockRelocateDetail) */
+export const BLOCK_RELOCATE_EVENT = 'dopecanvas:relocate';
+/** Dispatched on a block node dropped from the document */
+export const BLOCK_DISPOSE_EVENT = 'dopecanvas:dispose';
+
+export interface BlockRelocateDetail {
+  /** Position of the page the block is now on */
+  page: number;
+  /** Position of the page it was on */
+  previousPage: number;
+}
+
+/** Whether a block's content is editable: not for scripts and styles */
+export function isEditableBlock(html: string): boolean {
+  const lower = html.trim().toLowerCase();
+  return !lower.startsWith('<script') && !lower.startsWith('<style');
+}
+
+export class BlockNodes {
+  private isEditable: (html: string) => boolean;
+  /** Page each node was last placed on */
+  private pages: WeakMap<HTMLElement, number> = new WeakMap();
+  private keys: WeakMap<HTMLElement, string> = new WeakMap();
+  private nextKey = 0;
+
+  /** @param isEditable  Whether a new node's block is made editable */
+  constructor(isEditable: (html: string) => boolean = isEditableBlock) {
+    this.isEditable = isEditable;
+  }
+
+  /**
+   * Nodes for the blocks of a new layout (`pages`: each page's block
+   * HTML). Nodes of `current` showing a block's HTML are reused, in
+   * document order; the others are disposed.
+   */
+  assign(pages: string[][], current: HTMLElement[]): HTMLElement[][] {
+    const available = new Map<string, HTMLElement[]>();
+    current.forEach((node) => {
+      const html = blockNodeHTML(node);
+      if (html === null) return;
+      const nodes = available.get(html);
+      if (nodes) nodes.push(node);
+      else available.set(html, [node]);
+    });
+
+    const assigned = pages.map((blocks) =>
+      blocks.map((html) => available.get(html)?.shift() ?? this.create(html))
+    );
+
+    available.forEach((nodes) => nodes.forEach((node) => this.dispose(node)));
+    return assigned;
+  }
+
+  /** Dispose of nodes no longer shown (a new document) */
+  release(nodes: HTMLElement[]): void {
+    nodes.forEach((node) => this.dispose(node));
+  }
+
+  /** Stable React key of a node */
+  key(node: HTMLElement): string {
+    let key = this.keys.get(node);
+    if (key === undefined) {
+      key = `block-${this.nextKey++}`;
+      this.keys.set(node, key);
+    }
+    return key;
+  }
+
+  /** Record that `node` is shown on page `page`; tells it when it moved pages */
+  place(node: HTMLElement, page: number): void {
+    const previousPage = this.pages.get(node);
+    this.pages.set(node, page);
+    if (previousPage !== undefined && previousPage !== page) {
+      const detail: BlockRelocateDetail = { page, previousPage };
+      node.dispatchEvent(new CustomEvent(BLOCK_RELOCATE_EVENT, { detail }));
+    }
+  }
+
+  // ----------------------------------------------------------
+  // Helpers
+  // ----------------------------------------------------------
+
+  private create(html: string): HTMLElement {
+    const node = document.createElement('div');
+    node.className = 'dopecanvas-block-content';
+    node.innerHTML = html;
+
+    if (!this.isEditable(html)) return node;
+    if (html.trim().toLowerCase().startsWith('<table')) {
+      // Cell-level editability, so the table structure can't be broken
+      node.querySelectorAll('td, th').forEach((cell) => {
+        (cell as HTMLElement).contentEditable = 'true';
+      });
+    } else {
+      node.contentEditable = 'true';
+    }
+    return node;
+  }
+
+  private dispose(node: HTMLElement): void {
+    this.pages.delete(node);
+    node.dispatchEvent(new CustomEvent(BLOCK_DISPOSE_EVENT));
+  }
+}
+
+/**
+ * The block HTML a content node holds (as PagedView collects it),
+ * or null when it holds nothing or several elements.
+ */
+function blockNodeHTML(node: HTMLElement): string | null {
+  return node.children.length === 1 ? node.children[0].outerHTML : null;
+}
@@ -0,0 +1,479 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { trySplitBlock, recombineSplitBlocks } from './BlockSplitter';
+import { DeterministicBlockMeasurer } from './BlockMeasurer';
+
+// jsdom has no layout engine, so every rect is zero. Tests lay rows
+// out by hand: each row gets a fixed height stacked from the top.
+const ROW_HEIGHT = 30;
+
+function layoutTable(table: HTMLTableElement): void {
+  const rects = new Map<Element, DOMRect>();
+  rects.set(table, new DOMRect(0, 0, 600, table.rows.length * ROW_HEIGHT));
+  Array.from(table.rows).forEach((row, i) => {
+    rects.set(row, new DOMRect(0, i * ROW_HEIGHT, 600, ROW_HEIGHT));
+  });
+  vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(
+    function (this: Element) {
+      return rects.get(this) ?? new DOMRect();
+    }
+  );
+}
+
+function mountTable(html: string): HTMLTableElement {
+  const host = document.createElement('div');
+  host.innerHTML = html;
+  document.body.appendChild(host);
+  const table = host.querySelector('table') as HTMLTableElement;
+  layoutTable(table);
+  return table;
+}
+
+function parse(html: string): HTMLTableElement {
+  const host = document.createElement('div');
+  host.innerHTML = html;
+  return host.querySelector('table') as HTMLTableElement;
+}
+
+function bodyRows(count: number, from = 1): string {
+  return Array.from(
+    { length: count },
+    (_, i) => `<tr><td>Row ${from + i}</td><td>${(from + i) * 10}</td></tr>`
+  ).join('');
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  document.body.innerHTML = '';
+});
+
+describe('table splitting', () => {
+  it('repeats <thead> rows at the top of the continuation part', () => {
+    const table = mountTable(
+      `<table><thead><tr><th>Item</th><th>Value</th></tr></thead><tbody>${bodyRows(6)}</tbody></table>`
+    );
+
+    // Header + 3 body rows fit in 120px
+    const result = trySplitBlock(table, 120);
+    expect(result).not.toBeNull();
+
+    const first = parse(result!.firstHTML);
+    const second = parse(result!.secondHTML);
+
+    expect(first.tHead?.hasAttribute('data-dopecanvas-split-clone')).toBe(false);
+    expect(first.tBodies[0].rows).toHaveLength(3);
+
+    expect(second.tHead?.hasAttribute('data-dopecanvas-split-clone')).toBe(true);
+    expect(second.tHead?.textContent).toBe('ItemValue');
+    expect(second.tBodies[0].rows).toHaveLength(3);
+    expect(second.tBodies[0].rows[0].textContent).toBe('Row 440');
+  });
+
+  it('repeats leading <th> rows when the table has no <thead>', () => {
+    const table = mountTable(
+      `<table><tr><th>Item</th><th>Value</th></tr>${bodyRows(4)}</table>`
+    );
+
+    const result = trySplitBlock(table, 90);
+    expect(result).not.toBeNull();
+
+    const second = parse(result!.secondHTML);
+    expect(second.tHead?.rows).toHaveLength(1);
+    expect(second.tHead?.rows[0].cells[0].tagName).toBe('TH');
+    expect(second.tBodies[0].rows[0].textContent).toBe('Row 330');
+  });
+
+  it('drops repeated headers when the parts are recombined', () => {
+    const original =
+      `<table style="width: 100%;"><thead><tr><th>Item</th><th>Value</th></tr></thead>` +
+      `<tbody>${bodyRows(6)}</tbody></table>`;
+    const table = mountTable(original);
+
+    const result = trySplitBlock(table, 120)!;
+    const [merged] = recombineSplitBlocks([result.firstHTML, result.secondHTML]);
+
+    expect(merged).toBe(original);
+  });
+
+  it('keeps separate <tbody> groups through a split and recombination', () => {
+    const original =
+      `<table><thead><tr><th>Item</th><th>Value</th></tr></thead>` +
+      `<tbody class="a">${bodyRows(3)}</tbody><tbody class="b">${bodyRows(3, 4)}</tbody></table>`;
+    const table = mountTable(original);
+
+    // Split inside the second group: the first part ends with both
+    const result = trySplitBlock(table, 150)!;
+    expect(parse(result.firstHTML).tBodies).toHaveLength(2);
+
+    expect(recombineSplitBlocks([result.firstHTML, result.secondHTML])).toEqual([original]);
+
+    // Split between the groups
+    vi.restoreAllMocks();
+    const between = trySplitBlock(mountTable(original), 120)!;
+    expect(recombineSplitBlocks([between.firstHTML, between.secondHTML])).toEqual([original]);
+  });
+
+  it('shortens the first part to leave room for its footnotes', () => {
+    const table = mountTable(
+      `<table><thead><tr><th>Item</th><th>Value</th></tr></thead><tbody>` +
+        `<tr><td>Row 1</td><td>10</td></tr>` +
+        `<tr><td>Row 2<span data-dopecanvas-footnote>Restated.</span></td><td>20</td></tr>` +
+        `${bodyRows(4, 3)}</tbody></table>`
+    );
+
+    // Each note takes one row's height from the page
+    const result = trySplitBlock(table, 120, {
+      footnoteSpace: (html) => (html.match(/data-dopecanvas-footnote/g) ?? []).length * ROW_HEIGHT,
+    });
+
+    expect(parse(result!.firstHTML).tBodies[0].rows).toHaveLength(2);
+  });
+
+  it('keeps one split-id across parts when a continuation is split again', () => {
+    const original =
+      `<table><thead><tr><th>Item</th><th>Value</th></tr></thead>` +
+      `<tbody>${bodyRows(9)}</tbody></table>`;
+    const table = mountTable(original);
+
+    const first = trySplitBlock(table, 120)!;
+    vi.restoreAllMocks();
+    const continuation = mountTable(first.secondHTML);
+    const second = trySplitBlock(continuation, 120)!;
+
+    const parts = [first.firstHTML, second.firstHTML, second.secondHTML];
+    const ids = parts.map((html) => parse(html).getAttribute('data-dopecanvas-split-id'));
+    expect(new Set(ids).size).toBe(1);
+    expect(parts.map((html) => parse(html).getAttribute('data-dopecanvas-split-part')))
+      .toEqual(['0', '1', '2']);
+
+    expect(recombineSplitBlocks(parts)).toEqual([original]);
+  });
+
+  it('gives the same split-id to the same table, recombining neighbours apart', () => {
+    const original = `<table><tbody>${bodyRows(6)}</tbody></table>`;
+    const first = trySplitBlock(mountTable(original), 100)!;
+    vi.restoreAllMocks();
+    const again = trySplitBlock(mountTable(original), 100)!;
+
+    expect(again).toEqual(first);
+    expect(
+      recombineSplitBlocks([first.firstHTML, first.secondHTML, again.firstHTML, again.secondHTML])
+    ).toEqual([original, original]);
+  });
+});
+
+describe('widow and orphan control', () => {
+  // Lay a paragraph out as one word per line: every 5 characters of
+  // its single text node ("aaaa bbbb …") form a 20px line.
+  const LINE_HEIGHT = 20;
+  const LINE_CHARS = 5;
+
+  function lineRect(line: number): DOMRect {
+    return new DOMRect(0, line * LINE_HEIGHT, 400, LINE_HEIGHT);
+  }
+
+  function mountParagraph(lineCount: number): HTMLElement {
+    const words = Array.from({ length: lineCount }, (_, i) =>
+      String.fromCharCode(97 + i).repeat(LINE_CHARS - 1)
+    );
+    const p = document.createElement('p');
+    p.textContent = words.join(' ');
+    document.body.appendChild(p);
+
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(
+      () => new DOMRect(0, 0, 400, lineCount * LINE_HEIGHT)
+    );
+    Object.assign(Range.prototype, {
+      getClientRects(this: Range) {
+        const first = Math.floor(this.startOffset / LINE_CHARS);
+        const last = Math.floor(Math.max(this.endOffset - 1, 0) / LINE_CHARS);
+        return Array.from({ length: last - first + 1 }, (_, i) => lineRect(first + i));
+      },
+      getBoundingClientRect(this: Range) {
+        if (this.startContainer.nodeType !== Node.TEXT_NODE) {
+          return new DOMRect(0, 0, 400, lineCount * LINE_HEIGHT);
+        }
+        if (this.collapsed) return lineRect(Math.floor(this.startOffset / LINE_CHARS));
+        return new DOMRect(0, 0, 400, lineCount * LINE_HEIGHT);
+      },
+    });
+    return p;
+  }
+
+  afterEach(() => {
+    const proto = Range.prototype as Partial<Range>;
+    delete proto.getClientRects;
+    delete proto.getBoundingClientRect;
+  });
+
+  function text(html: string): string {
+    const host = document.createElement('div');
+    host.innerHTML = html;
+    return host.textContent || '';
+  }
+
+  it('moves the split point up so at least two lines reach the next page', () => {
+    const p = mountParagraph(5);
+
+    // Four lines would fit, but that would leave a single widow line
+    const result = trySplitBlock(p, 85);
+    expect(result).not.toBeNull();
+    expect(text(result!.firstHTML).trim()).toBe('aaaa bbbb cccc');
+    expect(text(result!.secondHTML)).toBe('dddd eeee');
+  });
+
+  it('refuses to leave a single orphan line at the bottom of the page', () => {
+    const p = mountParagraph(5);
+    expect(trySplitBlock(p, 25)).toBeNull();
+  });
+
+  it('honours configured minimums', () => {
+    const p = mountParagraph(5);
+
+    const result = trySplitBlock(p, 85, { widows: 3 });
+    expect(result).not.toBeNull();
+    expect(text(result!.firstHTML).trim()).toBe('aaaa bbbb');
+    expect(text(result!.secondHTML)).toBe('cccc dddd eeee');
+
+    // Two lines fit, which satisfies the default but not orphans: 3
+    expect(trySplitBlock(p, 45)).not.toBeNull();
+    expect(trySplitBlock(p, 45, { orphans: 3 })).toBeNull();
+  });
+});
+
+describe('ordered list splitting', () => {
+  // Each item is one 20px line
+  const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2, width: 400 });
+
+  function mountList(html: string): HTMLElement {
+    const host = document.createElement('div');
+    host.innerHTML = html;
+    document.body.appendChild(host);
+    return host.firstElementChild as HTMLElement;
+  }
+
+  function parseList(html: string): HTMLOListElement {
+    const host = document.createElement('div');
+    host.innerHTML = html;
+    return host.firstElementChild as HTMLOListElement;
+  }
+
+  const items = (count: number) =>
+    Array.from({ length: count }, (_, i) => `<li>Item ${i + 1}</li>`).join('');
+
+  it('numbers the continuation part on from the first part', () => {
+    const original = `<ol type="a" style="list-style-type: lower-roman;">${items(6)}</ol>`;
+    const result = trySplitBlock(mountList(original), 65, { measurer })!;
+
+    const first = parseList(result.firstHTML);
+    const second = parseList(result.secondHTML);
+    expect(first.children).toHaveLength(3);
+    expect(first.hasAttribute('start')).toBe(false);
+    expect(second.start).toBe(4);
+    expect(second.type).toBe('a');
+    expect(second.style.listStyleType).toBe('lower-roman');
+
+    expect(recombineSplitBlocks([result.firstHTML, result.secondHTML])).toEqual([original]);
+  });
+
+  it('follows start, value and reversed through repeated splits', () => {
+    const original =
+      `<ol start="10"><li>A</li><li value="20">B</li>` +
+      `<li>C</li><li>D</li><li>E</li><li>F</li></ol>`;
+    const first = trySplitBlock(mountList(original), 45, { measurer })!;
+    expect(parseList(first.secondHTML).start).toBe(21);
+    const second = trySplitBlock(mountList(first.secondHTML), 45, { measurer })!;
+    expect(parseList(second.secondHTML).start).toBe(23);
+    expect(recombineSplitBlocks([first.firstHTML, second.firstHTML, second.secondHTML]))
+      .toEqual([original]);
+
+    const reversed = `<ol reversed="">${items(5)}</ol>`;
+    const result = trySplitBlock(mountList(reversed), 45, { measurer })!;
+    expect(parseList(result.firstHTML).start).toBe(5);
+    expect(parseList(result.secondHTML).start).toBe(3);
+    expect(recombineSplitBlocks([result.firstHTML, result.secondHTML])).toEqual([reversed]);
+  });
+});
+
+describe('nested container splitting', () => {
+  // Each line is 20px; paragraphs and blockquotes add their margins
+  const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2, width: 400 });
+
+  function mount(html: string): HTMLElement {
+    const host = document.createElement('div');
+    host.innerHTML = html;
+    document.body.appendChild(host);
+    return host.firstElementChild as HTMLElement;
+  }
+
+  function parse(html: string): HTMLElement {
+    const host = document.createElement('div');
+    host.innerHTML = html;
+    return host.firstElementChild as HTMLElement;
+  }
+
+  const paragraphs = (count: number) =>
+    Array.from({ length: count }, (_, i) => `<p>Paragraph ${i + 1}</p>`).join('');
+
+  it('splits inside a wrapper and clones the wrappers into both parts', () => {
+    const original =
+      `<section style="border: 1px solid red; background: #eee;">` +
+      `<div class="inner"><h2>Title</h2>${paragraphs(6)}</div></section>`;
+    const result = trySplitBlock(mount(original), 140, { measurer })!;
+    expect(result).not.toBeNull();
+
+    const first = parse(result.firstHTML);
+    const second = parse(result.secondHTML);
+    expect(first.querySelectorAll('p')).toHaveLength(2);
+    expect(second.style.background).toBe('rgb(238, 238, 238)');
+    expect(second.querySelector('div.inner')!.textContent).toBe(
+      'Paragraph 3Paragraph 4Paragraph 5Paragraph 6'
+    );
+
+    expect(recombineSplitBlocks([result.firstHTML, result.secondHTML])).toEqual([original]);
+  });
+
+  it('splits inside list items and blockquotes, numbering a cut item once', () => {
+    const original =
+      `<ol><li>One</li><li>Two<blockquote>${paragraphs(5)}</blockquote></li><li>Three</li></ol>`;
+    const first = trySplitBlock(mount(original), 140, { measurer })!;
+    expect(parse(first.firstHTML).querySelectorAll('blockquote p')).toHaveLength(2);
+    // The rest of item two continues item two without repeating its
+    // number; item three is still numbered 3
+    const continued = parse(first.secondHTML);
+    expect(continued.getAttribute('start')).toBe('2');
+    expect((continued.firstElementChild as HTMLElement).style.listStyleType).toBe('none');
+
+    // Split the continuation again, inside the same blockquote
+    const second = trySplitBlock(mount(first.secondHTML), 100, { measurer })!;
+    expect(parse(second.firstHTML).querySelector('blockquote')!.textContent).toBe('Paragraph 3Paragraph 4');
+    expect(parse(second.secondHTML).querySelector('li')!.style.listStyleType).toBe('none');
+    const parts = [first.firstHTML, second.firstHTML, second.secondHTML];
+    expect(recombineSplitBlocks(parts)).toEqual([original]);
+  });
+});
+
+describe('table row splitting', () => {
+  // Two 200px columns of 20px lines, about 40 characters each
+  const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2, width: 400 });
+  const longText = Array.from({ length: 60 }, (_, i) => `word${i + 1}`).join(' ');
+
+  function mount(html: string): HTMLElement {
+    const host = document.createElement('div');
+    host.innerHTML = html;
+    document.body.appendChild(host);
+    return host.firstElementChild as HTMLElement;
+  }
+
+  it('splits a row taller than the space left, continuing every cell', () => {
+    const original =
+      `<table style="width: 400px;"><thead><tr><th>Note</th><th>Owner</th></tr></thead>` +
+      `<tbody><tr><td><p>${longText}</p></td><td>Ann</td></tr>${bodyRows(2)}</tbody></table>`;
+    const result = trySplitBlock(mount(original), 150, { measurer })!;
+    expect(result).not.toBeNull();
+
+    const first = parse(result.firstHTML);
+    const second = parse(result.secondHTML);
+    const [firstNote, firstOwner] = Array.from(first.tBodies[0].rows[0].cells);
+    const [secondNote, secondOwner] = Array.from(second.tBodies[0].rows[0].cells);
+
+    expect(first.tBodies[0].rows).toHaveLength(1);
+    expect(firstNote.textContent!.startsWith('word1 ')).toBe(true);
+    expect(firstOwner.textContent).toBe('Ann');
+    expect(secondNote.textContent!.endsWith('word60')).toBe(true);
+    expect(`${firstNote.textContent}${secondNote.textContent}`).toBe(longText);
+    // The continuation keeps both columns and repeats the header
+    expect(secondOwner.textContent).toBe('');
+    expect(second.tHead?.textContent).toBe('NoteOwner');
+    expect(second.tBodies[0].rows).toHaveLength(3);
+
+    expect(recombineSplitBlocks([result.firstHTML, result.secondHTML])).toEqual([original]);
+  });
+});
+
+describe('table column widths', () => {
+  const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2, width: 400 });
+
+  it('freezes the measured column widths on every part until recombined', () => {
+    const original =
+      `<table><caption>Totals</caption><thead><tr><th>Item</th><th>Value</th></tr></thead>` +
+      `<tbody>${bodyRows(9)}</tbody></table>`;
+    const host = document.createElement('div');
+    host.innerHTML = original;
+    document.body.appendChild(host);
+
+    const first = trySplitBlock(host.firstElementChild as HTMLElement, 120, { measurer })!;
+    const parts = [parse(first.firstHTML), parse(first.secondHTML)];
+    for (const part of parts) {
+      expect(part.style.tableLayout).toBe('fixed');
+      const cols = Array.from(part.querySelectorAll('colgroup > col')) as HTMLElement[];
+      expect(cols.map((col) => col.style.width)).toEqual(['200px', '200px']);
+    }
+    expect(parts[0].children[1].tagName).toBe('COLGROUP');
+
+    // A continuation split again keeps the widths it was given
+    host.innerHTML = first.secondHTML;
+    const second = trySplitBlock(host.firstElementChild as HTMLElement, 120, { measurer })!;
+    expect(parse(second.secondHTML).querySelectorAll('colgroup')).toHaveLength(1);
+
+    expect(recombineSplitBlocks([first.firstHTML, second.firstHTML, second.secondHTML]))
+      .toEqual([original]);
+  });
+});
+
+describe('code listing splitting', () => {
+  // Preformatted lines are 20px each
+  const measurer = new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2, width: 400 });
+  const listing = Array.from(
+    { length: 8 },
+    (_, i) => `<span class="ln">${i + 1}</span>    call(first, second, third); // step ${i + 1}\n`
+  ).join('');
+
+  function mount(html: string): HTMLElement {
+    const host = document.createElement('div');
+    host.innerHTML = html;
+    document.body.appendChild(host);
+    return host.firstElementChild as HTMLElement;
+  }
+
+  it('splits between lines, keeping indentation and line numbers', () => {
+    const original = `<pre style="margin: 0;"><code>${listing}</code></pre>`;
+    const result = trySplitBlock(mount(original), 90, { measurer })!;
+    expect(result).not.toBeNull();
+
+    const first = mount(result.firstHTML);
+    const second = mount(result.secondHTML);
+    expect(first.textContent).toMatch(/\/\/ step 4\n$/);
+    expect(second.textContent).toMatch(/^5 {4}call\(/);
+    expect(second.querySelector('.ln')!.textContent).toBe('5');
+    expect(second.querySelector('.dopecanvas-continued')).toBeNull();
+
+    expect(recombineSplitBlocks([result.firstHTML, result.secondHTML])).toEqual([original]);
+  });
+
+  it('moves a wrapped line whole', () => {
+    // 40 characters per 200px line: the third line wraps onto a fourth
+    const long = `    ${'x'.repeat(30)} ${'y'.repeat(30)}`;
+    const original = `<pre style="margin: 0; width: 200px; white-space: pre-wrap;">a\nb\n${long}\nc</pre>`;
+    const result = trySplitBlock(mount(original), 70, { measurer, widows: 1, orphans: 1 })!;
+
+    expect(mount(result.firstHTML).textContent).toBe('a\nb\n');
+    expect(mount(result.secondHTML).textContent).toBe(`${long}\nc`);
+  });
+
+  it('moves the listing whole when its wrapping first line crosses the boundary', () => {
+    // The first line wraps onto three 200px lines; only two fit
+    const first = `call(${'x'.repeat(30)}, ${'y'.repeat(30)}, ${'z'.repeat(30)});`;
+    const original = `<pre style="margin: 0; width: 200px; white-space: pre-wrap;">${first}\nb\nc</pre>`;
+
+    expect(trySplitBlock(mount(original), 50, { measurer, widows: 1, orphans: 1 })).toBeNull();
+  });
+
+  it('captions the continuation when configured', () => {
+    const original = `<pre style="margin: 0;"><code>${listing}</code></pre>`;
+    const result = trySplitBlock(mount(original), 90, { measurer, continuedCaption: '(continued)' })!;
+
+    const second = mount(result.secondHTML);
+    expect(second.firstElementChild!.textContent).toBe('(continued)');
+    expect(recombineSplitBlocks([result.firstHTML, result.secondHTML])).toEqual([original]);
+  });
+});
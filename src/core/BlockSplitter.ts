@@ -8,34 +8,137 @@
 // Two splitting strategies:
 // 1. Child-element boundary — for blocks with multiple children
 //    (e.g. <div> with <p>s, <ul> with <li>s, <table> with <tr>s)
+//    Tables split between body rows and repeat their header rows
+//    at the top of every continuation part; a first row too tall
+//    for the space left is split itself, every cell at the same
+//    height, and continues on the next page. When the child crossing
+//    the page boundary is itself a container (a wrapper <div>, a
+//    <blockquote>, a list item) the split happens inside it, as deep
+//    as a boundary is found; the wrappers around it are cloned into
+//    both parts.
 // 2. Text line boundary — for single text blocks (<p>, <h1>, etc.)
-//    Uses the Range API to find the line that crosses the boundary.
+//    Uses the measured line boxes to find the line that crosses the boundary,
+//    then moves it so widow/orphan minimums hold.
+//    Code listings (<pre>) split between lines only, never inside
+//    one, and may caption their continuation ("(continued)").
 //
 // Split blocks are marked with data attributes so they can be
-// recombined before the next re-pagination cycle.
+// recombined before the next re-pagination cycle. Content that is
+// only duplicated for display (e.g. repeated table headers, the
+// column widths frozen on table parts) is marked as a clone and
+// dropped again on recombination.
+//
+// An ordered list split between items carries its numbering over:
+// the continuation part gets a `start` attribute (its type, style
+// and list-style-type are cloned with the element), which is
+// removed again on recombination. The rest of an item cut in two
+// shows no marker, so its number appears once.
+//
+// A first part that references footnotes is shortened so that it
+// and its notes share the available height.
+//
+// Geometry comes from a BlockMeasurer (the browser's layout unless
+// another one is passed in the options).
 // ============================================================
 
+import type { BlockMeasurer, TextPosition } from './types';
+import { DomBlockMeasurer } from './BlockMeasurer';
+import { hashString } from './MeasurementCache';
+
 /** Result of splitting a block */
 export interface SplitResult {
   firstHTML: string;
   secondHTML: string;
 }
 
-/** Unique ID counter for split blocks */
-let splitIdCounter = 0;
-function nextSplitId(): string {
-  return `split-${++splitIdCounter}-${Date.now()}`;
+/** Options controlling where a block may be split */
+export interface SplitOptions {
+  /** Minimum lines carried to the next page (CSS `widows` wins when set) */
+  widows?: number;
+  /** Minimum lines left on the current page (CSS `orphans` wins when set) */
+  orphans?: number;
+  /**
+   * Room the footnotes referenced from a first part (HTML) take on
+   * the current page. When set, the first part is shortened until it
+   * and its notes fit within the available height together.
+   */
+  footnoteSpace?: (firstHTML: string) => number;
+  /**
+   * Caption at the top of the second part of a split code listing
+   * (e.g. '(continued)'); dropped again on recombination
+   */
+  continuedCaption?: string;
+  /** Layout backend for heights and line positions (default: the browser's layout) */
+  measurer?: BlockMeasurer;
+}
+
+const domMeasurer = new DomBlockMeasurer();
+
+/**
+ * ID for the parts of a split block, derived from the block's HTML so
+ * that laying out the same block again gives the same parts (and their
+ * live nodes are kept)
+ */
+function splitIdFor(source: HTMLElement): string {
+  return `split-${hashString(source.outerHTML)}`;
 }
 
+/** Attribute holding the id shared by all parts of one split block */
+export const SPLIT_ID_ATTR = 'data-dopecanvas-split-id';
+
+/** Attribute holding the 0-based part index within a split block */
+const SPLIT_PART_ATTR = 'data-dopecanvas-split-part';
+
+/** Attribute marking content cloned into a continuation part */
+const SPLIT_CLONE_ATTR = 'data-dopecanvas-split-clone';
+
+/**
+ * Attribute marking an element whose style the splitter changed — a
+ * table part with frozen column widths, the rest of a cut list item
+ * without its marker — holding its own `style` ('' when it had none)
+ */
+const SPLIT_STYLE_ATTR = 'data-dopecanvas-split-style';
+
+/** Attribute marking a nested element divided between two parts */
+const SPLIT_CUT_ATTR = 'data-dopecanvas-split-cut';
+
+/**
+ * Attribute marking a list part whose `start` was set by the
+ * splitter, holding the list's own `start` ('' when it had none)
+ */
+const SPLIT_START_ATTR = 'data-dopecanvas-split-start';
+
+/** Attempts at shortening a first part to make room for its footnotes */
+const FOOTNOTE_FIT_ATTEMPTS = 4;
+
 /** Minimum remaining height (in px) to attempt a split */
 const MIN_SPLIT_HEIGHT = 40;
 
+/** Default widow / orphan minimum — also the CSS initial value */
+const DEFAULT_LINE_MINIMUM = 2;
+
 /** Tags that should never be split */
 const UNSPLITTABLE_TAGS = new Set([
   'script', 'style', 'img', 'video', 'canvas', 'svg', 'hr',
   'iframe', 'object', 'embed', 'audio', 'picture', 'figure',
 ]);
 
+/** Containers searched for a deeper split boundary (see findChildBoundary) */
+const NESTED_CONTAINER_TAGS = new Set([
+  'div', 'section', 'article', 'aside', 'main', 'header', 'footer', 'nav',
+  'blockquote', 'ul', 'ol', 'li', 'dl', 'dd', 'details', 'fieldset', 'form',
+]);
+
+/** Block-level tags a nested container may be split before */
+const NESTED_BLOCK_TAGS = new Set([
+  ...NESTED_CONTAINER_TAGS,
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'table', 'figure',
+  'hr', 'dt', 'address', 'summary',
+]);
+
+/** white-space values that keep newlines (preformatted text) */
+const PRESERVED_NEWLINES = /^(pre|pre-wrap|pre-line|break-spaces)$/;
+
 /** Tags eligible for text-level splitting */
 const TEXT_BLOCK_TAGS = new Set([
   'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote',
@@ -51,14 +154,38 @@ const TEXT_BLOCK_TAGS = new Set([
  * within `availableHeight` pixels. Returns null if the block
  * cannot be split (too small, unsplittable tag, etc.).
  *
- * The element must be in the DOM (attached to a measurement
- * container) so that getBoundingClientRect / Range work.
+ * With the default measurer the element must be in the DOM
+ * (attached to a measurement container) so that
+ * getBoundingClientRect / Range work.
  */
 export function trySplitBlock(
   element: HTMLElement,
-  availableHeight: number
+  availableHeight: number,
+  options: SplitOptions = {}
+): SplitResult | null {
+  const { footnoteSpace } = options;
+  if (!footnoteSpace) return splitBlock(element, availableHeight, options);
+
+  // Notes referenced from the first part come off its height; split
+  // shorter until the room they need is what was left for them
+  let reserved = 0;
+  for (let attempt = 0; attempt < FOOTNOTE_FIT_ATTEMPTS; attempt++) {
+    const result = splitBlock(element, availableHeight - reserved, options);
+    if (!result) return null;
+    const needed = footnoteSpace(result.firstHTML);
+    if (needed <= reserved) return result;
+    reserved = needed;
+  }
+  return null;
+}
+
+function splitBlock(
+  element: HTMLElement,
+  availableHeight: number,
+  options: SplitOptions
 ): SplitResult | null {
   const tag = element.tagName.toLowerCase();
+  const measurer = options.measurer ?? domMeasurer;
 
   // Never split certain elements
   if (UNSPLITTABLE_TAGS.has(tag)) return null;
@@ -75,16 +202,27 @@ export function trySplitBlock(
     return null;
   }
 
-  // Strategy 1: split at child element boundaries
+  // Tables split between rows only — never through a cell's text
+  if (tag === 'table') {
+    return splitTableAtRowBoundary(element as HTMLTableElement, availableHeight, options);
+  }
+
+  // Strategy 1: split at child element boundaries (a single child
+  // only when it is a container to look into). Code listings split
+  // between lines of text instead.
   const children = Array.from(element.children) as HTMLElement[];
-  if (children.length > 1) {
-    const result = splitAtChildBoundary(element, children, availableHeight);
+  if (
+    tag !== 'pre' &&
+    (children.length > 1 ||
+      (children.length === 1 && NESTED_CONTAINER_TAGS.has(children[0].tagName.toLowerCase())))
+  ) {
+    const result = splitAtChildBoundary(element, children, availableHeight, measurer);
     if (result) return result;
   }
 
   // Strategy 2: split at text line boundary
   if (TEXT_BLOCK_TAGS.has(tag) || element.childNodes.length > 0) {
-    const result = splitAtTextBoundary(element, availableHeight);
+    const result = splitAtTextBoundary(element, availableHeight, options);
     if (result) return result;
   }
 
@@ -116,12 +254,13 @@ export function recombineSplitBlocks(blockHTMLs: string[]): string[] {
       continue;
     }
 
-    // Collect all parts with the same split-id
+    // Collect all parts with the same split-id (an identical block
+    // right after this one shares it, but starts again at part 0)
     const parts: string[] = [html];
     let j = i + 1;
     while (j < blockHTMLs.length) {
       const nextId = extractSplitId(blockHTMLs[j]);
-      if (nextId === splitId) {
+      if (nextId === splitId && extractSplitPart(blockHTMLs[j]) > 0) {
         parts.push(blockHTMLs[j]);
         j++;
       } else {
@@ -144,44 +283,263 @@ export function recombineSplitBlocks(blockHTMLs: string[]): string[] {
 function splitAtChildBoundary(
   element: HTMLElement,
   children: HTMLElement[],
-  availableHeight: number
+  availableHeight: number,
+  measurer: BlockMeasurer
 ): SplitResult | null {
-  const blockTop = element.getBoundingClientRect().top;
-  let splitIndex = -1;
-
-  // Find the first child whose bottom exceeds the available height
-  for (let i = 0; i < children.length; i++) {
-    const childRect = children[i].getBoundingClientRect();
-    const childStyle = window.getComputedStyle(children[i]);
-    const marginBottom = parseFloat(childStyle.marginBottom) || 0;
-    const childBottom = childRect.bottom + marginBottom - blockTop;
-
-    if (childBottom > availableHeight && i > 0) {
-      splitIndex = i;
-      break;
+  // The deepest boundary; failing that, the first child crossing the
+  // boundary after the first one (a first child too tall stays)
+  const boundary =
+    findChildBoundary(element, children, availableHeight, measurer) ??
+    children.find((child, i) => i > 0 && measurer.measureBottom(element, child) > availableHeight);
+  if (!boundary) return null; // Can't split (all children on first or nothing above)
+
+  // Two copies of the element (preserving tag + attributes), divided
+  // before the boundary
+  const [firstEl, secondEl] = divideBefore(element, boundary);
+  markSplitParts(element, firstEl, secondEl);
+
+  return {
+    firstHTML: firstEl.outerHTML,
+    secondHTML: secondEl.outerHTML,
+  };
+}
+
+/**
+ * The element to split before so that what precedes it fits in
+ * `availableHeight` (measured from the top of `block`). When the
+ * first child crossing the boundary is a container (a wrapper
+ * <div>, <section>, <blockquote>, a list or list item), the boundary
+ * is looked for inside it first. Null when nothing would precede
+ * the boundary in its parent.
+ */
+function findChildBoundary(
+  block: HTMLElement,
+  children: Element[],
+  availableHeight: number,
+  measurer: BlockMeasurer
+): Element | null {
+  const crossing = children.find((child) => measurer.measureBottom(block, child) > availableHeight);
+  if (!crossing) return null;
+
+  if (NESTED_CONTAINER_TAGS.has(crossing.tagName.toLowerCase())) {
+    const nested = findChildBoundary(block, blockChildren(crossing), availableHeight, measurer);
+    if (nested) return nested;
+  }
+  return hasContentBefore(crossing) ? crossing : null;
+}
+
+/** The block-level children of a container: where it may be split */
+function blockChildren(container: Element): Element[] {
+  return Array.from(container.children).filter((child) =>
+    NESTED_BLOCK_TAGS.has(child.tagName.toLowerCase())
+  );
+}
+
+/** Whether an element has content (an element or text) before it in its parent */
+function hasContentBefore(el: Element): boolean {
+  for (let node = el.previousSibling; node; node = node.previousSibling) {
+    if (node.nodeType === Node.ELEMENT_NODE) return true;
+    if (node.nodeType === Node.TEXT_NODE && node.textContent!.trim()) return true;
+  }
+  return false;
+}
+
+/**
+ * Divide `el` before `boundary`, one of its descendants: the first
+ * copy holds everything before it, the second the boundary and what
+ * follows. Elements between the two are cut: cloned (with their
+ * attributes, so borders, backgrounds and padding) into both copies
+ * and marked so recombination joins them again.
+ */
+function divideBefore(el: HTMLElement, boundary: Element): [HTMLElement, HTMLElement] {
+  const firstEl = el.cloneNode(false) as HTMLElement;
+  const secondEl = el.cloneNode(false) as HTMLElement;
+  let target = firstEl;
+  let itemsBefore = 0;
+
+  for (const child of Array.from(el.childNodes)) {
+    if (target === firstEl && child !== boundary && child.contains(boundary)) {
+      const [first, second] = divideBefore(child as HTMLElement, boundary);
+      first.setAttribute(SPLIT_CUT_ATTR, '');
+      second.setAttribute(SPLIT_CUT_ATTR, '');
+      if (second.tagName === 'LI') hideListMarker(second);
+      firstEl.appendChild(first);
+      secondEl.appendChild(second);
+      target = secondEl;
+      continue;
     }
+    if (child === boundary) target = secondEl;
+    if (target === firstEl && (child as Element).tagName === 'LI') itemsBefore++;
+    target.appendChild(child.cloneNode(true));
   }
 
-  if (splitIndex <= 0) return null; // Can't split (all children on first or nothing above)
+  continueListNumbering(el, firstEl, secondEl, itemsBefore);
+  return [firstEl, secondEl];
+}
 
-  // Create two copies of the parent element (preserving tag + attributes)
-  const firstEl = element.cloneNode(false) as HTMLElement;
-  const secondEl = element.cloneNode(false) as HTMLElement;
+/**
+ * Number the items of an ordered list's continuation part on from
+ * its first part: the continuation starts at the number its first
+ * item (the item at `splitIndex`, or the rest of it when the item
+ * itself was cut) had in `list`. A reversed list without `start`
+ * counts down from its item count, so its first part gets that
+ * count as `start`.
+ */
+function continueListNumbering(
+  list: HTMLElement,
+  firstEl: HTMLElement,
+  secondEl: HTMLElement,
+  splitIndex: number
+): void {
+  if (list.tagName !== 'OL') return;
+
+  const items = listItems(list);
+  if (splitIndex >= items.length) return;
+
+  // The list's own start, kept through repeated splits
+  const ownStart = list.hasAttribute(SPLIT_START_ATTR)
+    ? list.getAttribute(SPLIT_START_ATTR)!
+    : list.getAttribute('start') ?? '';
+  const reversed = list.hasAttribute('reversed');
+  const start = parseInt(list.getAttribute('start') ?? '', 10);
+
+  let number = Number.isNaN(start) ? (reversed ? items.length : 1) : start;
+  if (reversed && Number.isNaN(start)) setListStart(firstEl, number, ownStart);
+  for (let i = 0; i < splitIndex; i++) {
+    const value = parseInt(items[i].getAttribute('value') ?? '', 10);
+    number = (Number.isNaN(value) ? number : value) + (reversed ? -1 : 1);
+  }
+  setListStart(secondEl, number, ownStart);
+}
 
-  for (let i = 0; i < children.length; i++) {
-    if (i < splitIndex) {
-      firstEl.appendChild(children[i].cloneNode(true));
-    } else {
-      secondEl.appendChild(children[i].cloneNode(true));
+/**
+ * Hide the marker of the rest of a cut list item: the first part
+ * already shows its number. The item keeps counting, so the items
+ * after it stay numbered on.
+ */
+function hideListMarker(item: HTMLElement): void {
+  if (!item.hasAttribute(SPLIT_STYLE_ATTR)) {
+    item.setAttribute(SPLIT_STYLE_ATTR, item.getAttribute('style') ?? '');
+  }
+  item.style.listStyleType = 'none';
+}
+
+/** The items of a list (its <li> children) */
+function listItems(list: HTMLElement): Element[] {
+  return Array.from(list.children).filter((child) => child.tagName === 'LI');
+}
+
+function setListStart(list: HTMLElement, start: number, ownStart: string): void {
+  list.setAttribute('start', String(start));
+  list.setAttribute(SPLIT_START_ATTR, ownStart);
+}
+
+/**
+ * Split a table between two body rows. Header rows — the rows of
+ * <thead>, or leading rows made only of <th> cells when there is no
+ * <thead> — stay on the first part and are cloned into a <thead> at
+ * the top of the continuation part so readers keep the column labels.
+ *
+ * When the first body row already crosses the boundary (a cell
+ * holding a long paragraph), that row is split: its top goes on the
+ * first part and the rest of every cell continues the row in the
+ * second (see splitTableRow).
+ */
+function splitTableAtRowBoundary(
+  table: HTMLTableElement,
+  availableHeight: number,
+  options: SplitOptions
+): SplitResult | null {
+  const measurer = options.measurer ?? domMeasurer;
+  const headerRows = getTableHeaderRows(table);
+  const bodyRows = Array.from(table.rows).filter(
+    (row) => !headerRows.includes(row) && !row.closest(`[${SPLIT_CLONE_ATTR}]`)
+  );
+
+  // Find the first body row whose bottom exceeds the available height
+  const splitIndex = bodyRows.findIndex(
+    (row) => measurer.measureBottom(table, row) > availableHeight
+  );
+  if (splitIndex === -1) return null;
+
+  // Keep at least one body row under the header on the first part,
+  // or the top of the first one
+  const splitRow = bodyRows[splitIndex];
+  const rowParts = splitIndex === 0 ? splitTableRow(table, splitRow, availableHeight, options) : null;
+  if (splitIndex === 0 && !rowParts) return null;
+  const firstEl = table.cloneNode(false) as HTMLElement;
+  const secondEl = table.cloneNode(false) as HTMLElement;
+
+  // Repeated header for the continuation part
+  if (headerRows.length > 0) {
+    const thead = table.tHead
+      ? (table.tHead.cloneNode(false) as HTMLElement)
+      : document.createElement('thead');
+    thead.setAttribute(SPLIT_CLONE_ATTR, '');
+    headerRows.forEach((row) => thead.appendChild(row.cloneNode(true)));
+    secondEl.appendChild(thead);
+  }
+
+  let target = firstEl;
+  for (const section of Array.from(table.children) as HTMLElement[]) {
+    const sectionTag = section.tagName;
+
+    // <caption> belongs on the first part only; a <colgroup> applies to both
+    if (sectionTag === 'CAPTION') {
+      firstEl.appendChild(section.cloneNode(true));
+      continue;
+    }
+    if (sectionTag === 'COLGROUP' || sectionTag === 'COL') {
+      firstEl.appendChild(section.cloneNode(true));
+      secondEl.insertBefore(section.cloneNode(true), secondEl.firstChild);
+      continue;
     }
+    if (sectionTag === 'THEAD' && section.hasAttribute(SPLIT_CLONE_ATTR)) {
+      firstEl.appendChild(section.cloneNode(true));
+      continue;
+    }
+    if (sectionTag === 'TR') {
+      // Bare rows directly under <table> (only possible via DOM APIs)
+      if (section === splitRow) {
+        target = secondEl;
+        if (rowParts) {
+          firstEl.appendChild(rowParts[0]);
+          secondEl.appendChild(rowParts[1]);
+          continue;
+        }
+      }
+      target.appendChild(section.cloneNode(true));
+      continue;
+    }
+    if (!section.contains(splitRow)) {
+      target.appendChild(section.cloneNode(true));
+      continue;
+    }
+
+    // The section containing the split row is divided between the parts
+    const firstSection = section.cloneNode(false) as HTMLElement;
+    const secondSection = section.cloneNode(false) as HTMLElement;
+    let sectionTarget = firstSection;
+    for (const row of Array.from(section.children)) {
+      if (row === splitRow) {
+        sectionTarget = secondSection;
+        if (rowParts) {
+          firstSection.appendChild(rowParts[0]);
+          secondSection.appendChild(rowParts[1]);
+          continue;
+        }
+      }
+      sectionTarget.appendChild(row.cloneNode(true));
+    }
+    firstSection.setAttribute(SPLIT_CUT_ATTR, '');
+    secondSection.setAttribute(SPLIT_CUT_ATTR, '');
+    firstEl.appendChild(firstSection);
+    secondEl.appendChild(secondSection);
+    target = secondEl;
   }
 
-  // Add split markers
-  const id = nextSplitId();
-  firstEl.setAttribute('data-dopecanvas-split-id', id);
-  firstEl.setAttribute('data-dopecanvas-split-part', '0');
-  secondEl.setAttribute('data-dopecanvas-split-id', id);
-  secondEl.setAttribute('data-dopecanvas-split-part', '1');
+  freezeColumnWidths(table, [firstEl, secondEl], measurer);
+  markSplitParts(table, firstEl, secondEl);
 
   return {
     firstHTML: firstEl.outerHTML,
@@ -189,15 +547,136 @@ function splitAtChildBoundary(
   };
 }
 
+/**
+ * Give the parts of a split table the column widths of the whole
+ * table, so columns don't change width from page to page: a cloned
+ * <colgroup> of measured widths and `table-layout: fixed`. A table
+ * that is already a frozen part keeps its widths (its colgroup was
+ * copied with the rest); one with its own <colgroup> is left as is.
+ */
+function freezeColumnWidths(
+  table: HTMLTableElement,
+  parts: HTMLElement[],
+  measurer: BlockMeasurer
+): void {
+  if (table.hasAttribute(SPLIT_STYLE_ATTR) || table.querySelector(':scope > colgroup, :scope > col')) {
+    return;
+  }
+  const widths = measurer.measureColumnWidths(table);
+  if (widths.length === 0 || widths.some((width) => !(width > 0))) return;
+
+  for (const part of parts) {
+    const colgroup = document.createElement('colgroup');
+    colgroup.setAttribute(SPLIT_CLONE_ATTR, '');
+    widths.forEach((width) => {
+      const col = document.createElement('col');
+      col.style.width = `${Math.round(width * 100) / 100}px`;
+      colgroup.appendChild(col);
+    });
+    // After the caption, before any rows
+    const caption = part.firstElementChild?.tagName === 'CAPTION' ? part.firstElementChild : null;
+    part.insertBefore(colgroup, caption ? caption.nextSibling : part.firstChild);
+
+    part.setAttribute(SPLIT_STYLE_ATTR, table.getAttribute('style') ?? '');
+    part.style.tableLayout = 'fixed';
+  }
+}
+
+/**
+ * Split a table row at `availableHeight` (from the top of the table):
+ * each cell's content is split at the same height, the part above
+ * staying in the first row and the rest continuing in the second.
+ * Both rows keep every cell (empty where a cell has nothing left),
+ * so the columns line up. Null unless both rows get some content.
+ */
+function splitTableRow(
+  table: HTMLTableElement,
+  row: HTMLTableRowElement,
+  availableHeight: number,
+  options: SplitOptions
+): [HTMLElement, HTMLElement] | null {
+  const measurer = options.measurer ?? domMeasurer;
+
+  // The row starts where the row (or caption) above it ends
+  const above = table.rows[row.rowIndex - 1] ?? table.caption;
+  const cellHeight = availableHeight - (above ? measurer.measureBottom(table, above) : 0);
+
+  const firstRow = row.cloneNode(false) as HTMLElement;
+  const secondRow = row.cloneNode(false) as HTMLElement;
+  for (const cell of Array.from(row.cells)) {
+    const [firstCell, secondCell] = splitTableCell(cell, cellHeight, options);
+    firstRow.appendChild(firstCell);
+    secondRow.appendChild(secondCell);
+  }
+
+  const hasContent = (part: HTMLElement) =>
+    Array.from(part.children).some((cell) => cell.childNodes.length > 0);
+  if (!hasContent(firstRow) || !hasContent(secondRow)) return null;
+
+  [firstRow, secondRow, ...Array.from(firstRow.children), ...Array.from(secondRow.children)]
+    .forEach((el) => el.setAttribute(SPLIT_CUT_ATTR, ''));
+  return [firstRow, secondRow];
+}
+
+/**
+ * Divide a cell's content at `height` (from the top of the cell):
+ * split like a block when it can be, otherwise kept whole in the
+ * part where its last line ends.
+ */
+function splitTableCell(
+  cell: HTMLTableCellElement,
+  height: number,
+  options: SplitOptions
+): [HTMLElement, HTMLElement] {
+  const result = splitBlock(cell, height, options);
+  if (result) {
+    return [parseTablePart(result.firstHTML), parseTablePart(result.secondHTML)].map((part) => {
+      part.removeAttribute(SPLIT_ID_ATTR);
+      part.removeAttribute(SPLIT_PART_ATTR);
+      return part;
+    }) as [HTMLElement, HTMLElement];
+  }
+
+  const lines = (options.measurer ?? domMeasurer).measureLines(cell);
+  const fits = lines.length === 0 || lines[lines.length - 1].bottom <= height;
+  const whole = cell.cloneNode(true) as HTMLElement;
+  const empty = cell.cloneNode(false) as HTMLElement;
+  return fits ? [whole, empty] : [empty, whole];
+}
+
+/** Parse the HTML of a table part (a cell, row or section) */
+function parseTablePart(html: string): HTMLElement {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return template.content.firstElementChild as HTMLElement;
+}
+
+/** Collect the rows that should repeat at the top of each table part */
+function getTableHeaderRows(table: HTMLTableElement): HTMLTableRowElement[] {
+  if (table.tHead) {
+    return Array.from(table.tHead.rows);
+  }
+
+  const headerRows: HTMLTableRowElement[] = [];
+  for (const row of Array.from(table.rows)) {
+    const cells = Array.from(row.cells);
+    if (cells.length === 0 || cells.some((cell) => cell.tagName !== 'TH')) break;
+    headerRows.push(row);
+  }
+  // A table made only of <th> rows has no header to repeat
+  return headerRows.length === table.rows.length ? [] : headerRows;
+}
+
 // ----------------------------------------------------------
 // Strategy 2: Split at text line boundary
 // ----------------------------------------------------------
 
 function splitAtTextBoundary(
   element: HTMLElement,
-  availableHeight: number
+  availableHeight: number,
+  options: SplitOptions
 ): SplitResult | null {
-  const blockTop = element.getBoundingClientRect().top;
+  const measurer = options.measurer ?? domMeasurer;
 
   // Collect all text nodes in document order
   const textNodes: Text[] = [];
@@ -208,56 +687,47 @@ function splitAtTextBoundary(
 
   if (textNodes.length === 0) return null;
 
-  // Find the text node + offset where content crosses the boundary
-  let splitNode: Text | null = null;
-  let splitOffset = 0;
-
-  for (const textNode of textNodes) {
-    const range = document.createRange();
-    range.selectNodeContents(textNode);
-    const nodeRect = range.getBoundingClientRect();
-
-    // If this entire text node is above the boundary, skip
-    if (nodeRect.bottom - blockTop <= availableHeight) continue;
-
-    // If this entire text node starts below the boundary, split before it
-    if (nodeRect.top - blockTop >= availableHeight) {
-      splitNode = textNode;
-      splitOffset = 0;
-      break;
-    }
-
-    // This text node crosses the boundary — binary search within it
-    let lo = 0;
-    let hi = textNode.length;
-    while (lo < hi) {
-      const mid = Math.floor((lo + hi) / 2);
-      const r = document.createRange();
-      r.setStart(textNode, mid);
-      r.collapse(true);
-      const rr = r.getBoundingClientRect();
-      if (rr.top - blockTop >= availableHeight) {
-        hi = mid;
-      } else {
-        lo = mid + 1;
-      }
-    }
-
-    splitNode = textNode;
-    splitOffset = lo;
-    break;
+  // Apply widow / orphan control: pick how many whole lines stay on
+  // this page, or give up so the whole block moves to the next page.
+  let splitHeight = availableHeight;
+  const lines = measurer.measureLines(element);
+  if (lines.length > 0) {
+    const style = window.getComputedStyle(element);
+    const orphans = resolveLineMinimum(style, 'orphans', options.orphans);
+    const widows = resolveLineMinimum(style, 'widows', options.widows);
+
+    const fitting = lines.filter((line) => line.bottom <= availableHeight).length;
+    const linesBefore = Math.min(fitting, lines.length - widows);
+    if (linesBefore < orphans || linesBefore >= lines.length) return null;
+
+    // Split just above the first line that moves to the next page
+    splitHeight = lines[linesBefore].top - 1;
   }
 
-  if (!splitNode) return null;
+  // Find the text node + offset where content crosses the boundary
+  const position = measurer.positionAt(element, splitHeight);
+  if (!position) return null;
+
+  // In preformatted text (code listings) back up to the start of the
+  // line, keeping lines, their indentation and any line-number markup
+  // whole; elsewhere to a word boundary (don't split in the middle of
+  // a word)
+  const pre = preformattedAncestor(element, position.node);
+  const lineStart = pre ? findLineStart(textNodes.filter((node) => pre.contains(node)), position) : null;
+  // The first line of a listing wraps past the boundary: move it whole
+  if (pre && !lineStart) return null;
+  const splitNode = lineStart?.node ?? position.node;
+  let splitOffset = lineStart?.offset ?? position.offset;
 
-  // Back up to a word boundary (don't split in the middle of a word)
   const text = splitNode.textContent || '';
-  let wordBound = splitOffset;
-  while (wordBound > 0 && text[wordBound - 1] !== ' ' && text[wordBound - 1] !== '\n') {
-    wordBound--;
-  }
-  if (wordBound > 0) {
-    splitOffset = wordBound;
+  if (!lineStart) {
+    let wordBound = splitOffset;
+    while (wordBound > 0 && text[wordBound - 1] !== ' ' && text[wordBound - 1] !== '\n') {
+      wordBound--;
+    }
+    if (wordBound > 0) {
+      splitOffset = wordBound;
+    }
   }
 
   // Don't split if the offset is at the very start or end
@@ -293,12 +763,11 @@ function splitAtTextBoundary(
     const secondEl = element.cloneNode(false) as HTMLElement;
     secondEl.appendChild(secondFragment);
 
-    // Add split markers
-    const id = nextSplitId();
-    firstEl.setAttribute('data-dopecanvas-split-id', id);
-    firstEl.setAttribute('data-dopecanvas-split-part', '0');
-    secondEl.setAttribute('data-dopecanvas-split-id', id);
-    secondEl.setAttribute('data-dopecanvas-split-part', '1');
+    markCutAncestors(element, splitNode, firstEl, secondEl);
+    markSplitParts(element, firstEl, secondEl);
+    if (pre && options.continuedCaption) {
+      addContinuedCaption(secondEl, options.continuedCaption);
+    }
 
     return {
       firstHTML: firstEl.outerHTML,
@@ -309,55 +778,227 @@ function splitAtTextBoundary(
   }
 }
 
+/**
+ * The preformatted element (a <pre>, or an element with white-space
+ * that keeps newlines) holding `node`, inside or equal to `element`
+ */
+function preformattedAncestor(element: HTMLElement, node: Node): HTMLElement | null {
+  for (let el = node.parentElement; el; el = el.parentElement) {
+    if (el.tagName === 'PRE' || PRESERVED_NEWLINES.test(window.getComputedStyle(el).whiteSpace)) {
+      return el;
+    }
+    if (el === element) break;
+  }
+  return null;
+}
+
+/**
+ * The start of the line holding `position` in preformatted text: just
+ * after the last newline before it in `textNodes`. Null when no
+ * newline precedes it (the split is on the first line).
+ */
+function findLineStart(textNodes: Text[], position: TextPosition): TextPosition | null {
+  for (let i = textNodes.indexOf(position.node); i >= 0; i--) {
+    const text = textNodes[i].data;
+    const end = textNodes[i] === position.node ? position.offset : text.length;
+    const newline = end > 0 ? text.lastIndexOf('\n', end - 1) : -1;
+    if (newline === -1) continue;
+
+    // A line starting with the next text node starts there
+    if (newline + 1 < text.length || i + 1 === textNodes.length) {
+      return { node: textNodes[i], offset: newline + 1 };
+    }
+    return { node: textNodes[i + 1], offset: 0 };
+  }
+  return null;
+}
+
+/**
+ * Caption the continuation of a split code listing. It is marked as
+ * a clone so recombination drops it, and it can't be edited.
+ */
+function addContinuedCaption(secondEl: HTMLElement, caption: string): void {
+  const pre = secondEl.tagName === 'PRE' ? secondEl : secondEl.querySelector('pre') ?? secondEl;
+  const label = document.createElement('span');
+  label.setAttribute(SPLIT_CLONE_ATTR, '');
+  label.contentEditable = 'false';
+  label.className = 'dopecanvas-continued';
+  label.style.cssText = 'display: block; font-style: italic; opacity: 0.6; user-select: none;';
+  label.textContent = caption;
+  pre.insertBefore(label, pre.firstChild);
+}
+
+/**
+ * Mark the elements a text split cut in two — the ancestors of the
+ * split point inside `element` — in both halves, where they end the
+ * first half and start the second.
+ */
+function markCutAncestors(
+  element: HTMLElement,
+  splitNode: Node,
+  firstEl: HTMLElement,
+  secondEl: HTMLElement
+): void {
+  let first: Node | null = firstEl;
+  let second: Node | null = secondEl;
+  for (let node = splitNode.parentNode; node && node !== element; node = node.parentNode) {
+    first = first?.lastChild ?? null;
+    second = second?.firstChild ?? null;
+    if (first instanceof HTMLElement) first.setAttribute(SPLIT_CUT_ATTR, '');
+    if (second instanceof HTMLElement) second.setAttribute(SPLIT_CUT_ATTR, '');
+  }
+}
+
+/**
+ * Resolve a widow / orphan minimum. The block's own CSS value wins
+ * when it differs from the CSS initial value (2); otherwise the
+ * configured value applies.
+ */
+function resolveLineMinimum(
+  style: CSSStyleDeclaration,
+  property: 'widows' | 'orphans',
+  configured: number | undefined
+): number {
+  const cssValue = parseInt(style.getPropertyValue(property), 10);
+  if (cssValue > 0 && cssValue !== DEFAULT_LINE_MINIMUM) return cssValue;
+  return Math.max(1, configured ?? DEFAULT_LINE_MINIMUM);
+}
+
+// ----------------------------------------------------------
+// Split markers
+// ----------------------------------------------------------
+
+/**
+ * Mark the two halves of a split. When the source element is itself
+ * a continuation part (a block split over three or more pages), the
+ * existing split-id is kept and the part index continues from it so
+ * that all parts recombine into one block.
+ */
+function markSplitParts(
+  source: HTMLElement,
+  firstEl: HTMLElement,
+  secondEl: HTMLElement
+): void {
+  const id = source.getAttribute(SPLIT_ID_ATTR) || splitIdFor(source);
+  const part = parseInt(source.getAttribute(SPLIT_PART_ATTR) || '0', 10) || 0;
+  firstEl.setAttribute(SPLIT_ID_ATTR, id);
+  firstEl.setAttribute(SPLIT_PART_ATTR, String(part));
+  secondEl.setAttribute(SPLIT_ID_ATTR, id);
+  secondEl.setAttribute(SPLIT_PART_ATTR, String(part + 1));
+}
+
 // ----------------------------------------------------------
 // Recombination helpers
 // ----------------------------------------------------------
 
 /** Extract the split-id from a block's HTML string (fast regex check) */
 function extractSplitId(html: string): string | null {
-  const match = html.match(/data-dopecanvas-split-id="([^"]+)"/);
+  const match = html.match(/^\s*<[^>]*data-dopecanvas-split-id="([^"]+)"/);
   return match ? match[1] : null;
 }
 
+/** Extract the part index from a split block's HTML string */
+function extractSplitPart(html: string): number {
+  const match = html.match(/^\s*<[^>]*data-dopecanvas-split-part="(\d+)"/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
 /**
  * Merge multiple split-part HTML strings back into one block.
- * Combines the innerHTML of all parts into the first part's
- * outer element (preserving tag + original attributes minus split markers).
+ * Combines the content of all parts into the first part's outer
+ * element (preserving tag + original attributes minus split markers)
+ * and drops anything that was only cloned for display.
  */
 function mergeBlockParts(parts: string[]): string {
   const container = document.createElement('div');
+  let merged: HTMLElement | null = null;
 
-  // Parse each part and collect inner content
-  const innerParts: string[] = [];
-  let outerTag = '';
-  let outerAttrs = '';
-
-  for (const partHTML of parts) {
+  for (const [index, partHTML] of parts.entries()) {
     container.innerHTML = partHTML;
     const el = container.firstElementChild as HTMLElement;
     if (!el) continue;
 
-    if (!outerTag) {
+    el.querySelectorAll(`[${SPLIT_CLONE_ATTR}]`).forEach((clone) => clone.remove());
+
+    if (!merged) {
       // Use the first part as the template for the outer element
-      outerTag = el.tagName.toLowerCase();
-      const clone = el.cloneNode(false) as HTMLElement;
-      clone.removeAttribute('data-dopecanvas-split-id');
-      clone.removeAttribute('data-dopecanvas-split-part');
-      // Get the opening tag
-      const tmp = document.createElement('div');
-      tmp.appendChild(clone);
-      const fullTag = tmp.innerHTML;
-      // Extract opening tag (everything before the closing)
-      const closeIdx = fullTag.lastIndexOf('</');
-      outerAttrs = closeIdx >= 0 ? fullTag.substring(0, closeIdx) : fullTag;
+      merged = el.cloneNode(false) as HTMLElement;
+      merged.removeAttribute(SPLIT_ID_ATTR);
+      merged.removeAttribute(SPLIT_PART_ATTR);
+      restoreListStart(merged);
+      restoreOwnStyle(merged);
     }
 
-    innerParts.push(el.innerHTML);
+    // Later parts start with the rest of what the part before ended with
+    appendMergedChildren(merged, Array.from(el.childNodes), index > 0);
   }
 
-  if (!outerTag) return parts[0]; // fallback
+  if (!merged) return parts[0]; // fallback
+  merged.querySelectorAll(`[${SPLIT_CUT_ATTR}]`).forEach((el) => el.removeAttribute(SPLIT_CUT_ATTR));
+  merged.querySelectorAll<HTMLElement>(`[${SPLIT_START_ATTR}]`).forEach(restoreListStart);
+  merged.querySelectorAll<HTMLElement>(`[${SPLIT_STYLE_ATTR}]`).forEach(restoreOwnStyle);
+  return merged.outerHTML;
+}
+
+/** Give a list part whose numbering the splitter set its own `start` back */
+function restoreListStart(list: HTMLElement): void {
+  const ownStart = list.getAttribute(SPLIT_START_ATTR);
+  if (ownStart === null) return;
+  if (ownStart === '') list.removeAttribute('start');
+  else list.setAttribute('start', ownStart);
+  list.removeAttribute(SPLIT_START_ATTR);
+}
+
+/** Give an element whose style the splitter changed its own `style` back */
+function restoreOwnStyle(el: HTMLElement): void {
+  const ownStyle = el.getAttribute(SPLIT_STYLE_ATTR);
+  if (ownStyle === null) return;
+  if (ownStyle === '') el.removeAttribute('style');
+  else el.setAttribute('style', ownStyle);
+  el.removeAttribute(SPLIT_STYLE_ATTR);
+}
+
+/**
+ * Append the children of a split part (or of one of its cut elements)
+ * to the merged block. When `continuing`, the first child may be the
+ * rest of the element the merged block ends with.
+ */
+function appendMergedChildren(merged: HTMLElement, children: Node[], continuing: boolean): void {
+  children.forEach((child, i) => appendMergedChild(merged, child, continuing && i === 0));
+}
 
-  return `${outerAttrs}${innerParts.join('')}</${outerTag}>`;
+/**
+ * Append a child of a split part to the merged block. Elements cut
+ * between parts — table sections (e.g. one <tbody> cut in two), rows
+ * and nested containers, all marked as cut — are joined back into
+ * one when the child continues the merged block's last element.
+ */
+function appendMergedChild(merged: HTMLElement, child: Node, continuing: boolean): void {
+  const last = merged.lastElementChild;
+  if (
+    continuing &&
+    child instanceof HTMLElement &&
+    child.hasAttribute(SPLIT_CUT_ATTR) &&
+    last?.hasAttribute(SPLIT_CUT_ATTR) &&
+    last.tagName === child.tagName &&
+    merged.lastChild === last
+  ) {
+    if (child.tagName === 'TR') {
+      // A split row: each cell continues the cell above it
+      Array.from(child.children).forEach((cell, i) => {
+        const target = last.children[i] as HTMLElement | undefined;
+        if (target) {
+          appendMergedChildren(target, Array.from(cell.childNodes), true);
+        } else {
+          last.appendChild(cell);
+        }
+      });
+      return;
+    }
+    appendMergedChildren(last as HTMLElement, Array.from(child.childNodes), true);
+    return;
+  }
+  merged.appendChild(child);
 }
 
 /** Get plain text from a DocumentFragment */
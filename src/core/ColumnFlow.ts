@@ -0,0 +1,173 @@
+// ============================================================
+// ColumnFlow — Fills pages column by column
+// ============================================================
+// Bookkeeping for the paginators: where the next block goes and
+// how much room is left there. A page is a stack of bands — runs
+// of columns filled left to right, separated by blocks that span
+// all columns (`column-span: all`). Column 1 is filled to the
+// bottom of the page before column 2 starts; a spanning block
+// closes the current band at its tallest column and a new band
+// starts below it.
+//
+// With a single column this reduces to filling page after page.
+//
+// Footnotes take room from the bottom of the page, across all
+// columns: the notes referenced by the blocks placed so far, plus
+// a separator once the page has any.
+// ============================================================
+
+import type { PageBand } from './types';
+import { FOOTNOTE_SEPARATOR } from './Footnotes';
+
+/** One filled page: its items in document order and their layout */
+export interface FlowPage<T> {
+  items: T[];
+  /** Column layout (positions into `items`); omitted for single-column pages */
+  bands?: PageBand[];
+}
+
+export class ColumnFlow<T> {
+  /** Number of columns per page */
+  readonly columns: number;
+  private contentHeight: (pageIndex: number) => number;
+  private pages: FlowPage<T>[] = [];
+  private items: T[] = [];
+  private bands: PageBand[] = [];
+  private band: PageBand;
+  private column = 0;
+  private columnHeights: number[];
+  /** Height taken by the closed bands above the current one */
+  private bandTop = 0;
+  /** Height of the page's footnote area (0 while it has no notes) */
+  private footnoteSpace = 0;
+
+  /**
+   * @param columns        Columns per page (at least 1)
+   * @param contentHeight  Content area height of the page at an index
+   */
+  constructor(columns: number, contentHeight: (pageIndex: number) => number) {
+    this.columns = Math.max(1, Math.floor(columns));
+    this.contentHeight = contentHeight;
+    this.band = this.newBand();
+    this.columnHeights = this.band.columns.map(() => 0);
+  }
+
+  /** Whether anything has been placed on the current page */
+  pageHasContent(): boolean {
+    return this.items.length > 0;
+  }
+
+  /** Number of pages finished so far */
+  pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Whether anything has been placed in the current column */
+  columnHasContent(): boolean {
+    return this.band.columns[this.column].length > 0;
+  }
+
+  /** Height left in the current column, above the page's footnotes */
+  remaining(): number {
+    return (
+      this.contentHeight(this.pages.length) -
+      this.bandTop -
+      this.footnoteSpace -
+      this.columnHeights[this.column]
+    );
+  }
+
+  /** Footnote area growth for notes of `footnotes` height (adds the separator to the first) */
+  footnoteCost(footnotes: number): number {
+    if (footnotes <= 0) return 0;
+    return this.footnoteSpace === 0 ? footnotes + FOOTNOTE_SEPARATOR : footnotes;
+  }
+
+  /**
+   * Whether a block of `height` referencing notes of `footnotes`
+   * height fits in the current column — and its notes still leave
+   * room for the columns beside it.
+   */
+  fits(height: number, footnotes = 0): boolean {
+    const heights = [...this.columnHeights];
+    heights[this.column] += height;
+    return (
+      this.bandTop + Math.max(...heights) + this.footnoteSpace + this.footnoteCost(footnotes) <=
+      this.contentHeight(this.pages.length)
+    );
+  }
+
+  /** Place an item (referencing notes of `footnotes` height) at the bottom of the current column */
+  place(item: T, height: number, footnotes = 0): void {
+    this.band.columns[this.column].push(this.items.length);
+    this.items.push(item);
+    this.columnHeights[this.column] += height;
+    this.footnoteSpace += this.footnoteCost(footnotes);
+  }
+
+  /**
+   * Place an item across all columns, below everything on the page
+   * so far — on a new page if it doesn't fit there.
+   */
+  placeSpanning(item: T, height: number, footnotes = 0): void {
+    this.closeBand();
+    if (
+      this.pageHasContent() &&
+      this.contentHeight(this.pages.length) - this.bandTop - this.footnoteSpace <
+        height + this.footnoteCost(footnotes)
+    ) {
+      this.breakPage();
+    }
+    this.bands.push({ span: true, columns: [[this.items.length]] });
+    this.items.push(item);
+    this.bandTop += height;
+    this.footnoteSpace += this.footnoteCost(footnotes);
+  }
+
+  /** Continue in the next column, or on the next page after the last one */
+  breakColumn(): void {
+    if (this.column < this.columns - 1) {
+      this.column++;
+    } else {
+      this.breakPage();
+    }
+  }
+
+  /** Finish the current page (if it has content) and start a new one */
+  breakPage(): void {
+    if (!this.pageHasContent()) return;
+    this.closeBand();
+    this.pages.push(
+      this.columns > 1 ? { items: this.items, bands: this.bands } : { items: this.items }
+    );
+    this.items = [];
+    this.bands = [];
+    this.bandTop = 0;
+    this.footnoteSpace = 0;
+  }
+
+  /** Finish the last page and return all pages */
+  finish(): FlowPage<T>[] {
+    this.breakPage();
+    return this.pages;
+  }
+
+  // ----------------------------------------------------------
+  // Helpers
+  // ----------------------------------------------------------
+
+  private newBand(): PageBand {
+    return { span: false, columns: Array.from({ length: this.columns }, () => []) };
+  }
+
+  /** End the current band (kept if not empty) and start a fresh one below it */
+  private closeBand(): void {
+    if (this.band.columns.some((column) => column.length > 0)) {
+      this.bands.push(this.band);
+      this.bandTop += Math.max(...this.columnHeights);
+    }
+    this.band = this.newBand();
+    this.columnHeights = this.band.columns.map(() => 0);
+    this.column = 0;
+  }
+}
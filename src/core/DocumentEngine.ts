@@ -3,14 +3,20 @@
 // ============================================================
 // Ties PageLayoutEngine and EditableManager together.
 // Manages the lifecycle: load → parse → paginate → edit → re-paginate
+//
+// Once editing is attached, blocks that change size on their own
+// (images and fonts loading, scripts drawing) re-paginate as well.
 // ============================================================
 
 import { PageLayoutEngine } from './PageLayoutEngine';
 import { EditableManager } from './EditableManager';
+import { recombineSplitBlocks } from './BlockSplitter';
+import { LayoutWatcher } from './LayoutWatcher';
 import type {
   PageConfig,
   PaginationResult,
   BlockMeasurement,
+  BlockMeasurer,
   Unsubscribe,
 } from './types';
 import { DEFAULT_PAGE_CONFIG } from './types';
@@ -22,12 +28,17 @@ export class DocumentEngine {
   private sourceCSS: string = '';
   private measureContainer: HTMLElement | null = null;
   private contentContainer: HTMLElement | null = null;
+  private layoutWatcher: LayoutWatcher | null = null;
   private paginationResult: PaginationResult = { pages: [], pageCount: 0 };
   private paginationCallbacks: Set<(result: PaginationResult) => void> = new Set();
   private changeCallbacks: Set<(html: string) => void> = new Set();
 
-  constructor(config: PageConfig = DEFAULT_PAGE_CONFIG) {
-    this.layoutEngine = new PageLayoutEngine(config);
+  /**
+   * @param config    Page configuration
+   * @param measurer  Layout backend for pagination (default: the browser's layout)
+   */
+  constructor(config: PageConfig = DEFAULT_PAGE_CONFIG, measurer?: BlockMeasurer) {
+    this.layoutEngine = new PageLayoutEngine(config, measurer);
     this.editableManager = new EditableManager();
   }
 
@@ -97,13 +108,19 @@ export class DocumentEngine {
 
   /**
    * Run the full pagination cycle:
-   * 1. Inject HTML into measure container
-   * 2. Inject CSS (via <style> tag)
-   * 3. Measure all blocks
-   * 4. Run pagination algorithm
-   * 5. Return result for rendering
+   * 1. Inject HTML and CSS into the measure container
+   * 2. Measure and paginate it section by section, splitting blocks
+   *    at page boundaries (PageLayoutEngine.paginateDocument)
+   * 3. Return result for rendering
+   *
+   * `measurements` are those of the blocks laid out, kept for existing
+   * callers; with block splitting the pages no longer follow from them.
    */
-  runPagination(): { result: PaginationResult; measurements: BlockMeasurement[] } {
+  runPagination(): {
+    result: PaginationResult;
+    /** @deprecated Use `result`: pages hold the (split) block fragments */
+    measurements: BlockMeasurement[];
+  } {
     if (!this.measureContainer) {
       return {
         result: { pages: [{ blockIndices: [] }], pageCount: 1 },
@@ -111,54 +128,40 @@ export class DocumentEngine {
       };
     }
 
-    // Set up the measure container width to match content area
-    const contentWidth = this.layoutEngine.getContentAreaWidth();
-    this.measureContainer.style.width = `${contentWidth}px`;
-    this.measureContainer.style.position = 'absolute';
-    this.measureContainer.style.left = '-9999px';
-    this.measureContainer.style.top = '0';
-    this.measureContainer.style.visibility = 'hidden';
-
-    // Inject CSS if provided
-    let styleEl: HTMLStyleElement | null = null;
-    if (this.sourceCSS) {
-      styleEl = document.createElement('style');
-      styleEl.textContent = this.sourceCSS;
-      this.measureContainer.appendChild(styleEl);
-    }
-
-    // Inject HTML content
-    const contentWrapper = document.createElement('div');
-    contentWrapper.innerHTML = this.sourceHTML;
-    this.measureContainer.appendChild(contentWrapper);
-
-    // Measure blocks
-    const measurements = this.layoutEngine.measureBlocks(contentWrapper);
-
-    // Paginate
-    this.paginationResult = this.layoutEngine.paginate(measurements);
-
-    // Clean up measure container
-    this.measureContainer.innerHTML = '';
+    this.paginationResult = this.layoutEngine.paginateDocument(
+      this.measureContainer,
+      this.sourceHTML,
+      { css: this.sourceCSS }
+    );
 
     // Notify listeners
     this.paginationCallbacks.forEach((cb) => cb(this.paginationResult));
 
-    return { result: this.paginationResult, measurements };
+    return {
+      result: this.paginationResult,
+      measurements: this.layoutEngine.getDocumentMeasurements(),
+    };
   }
 
   /**
-   * Re-paginate using the current content container's live DOM.
-   * Called after user edits.
+   * Re-paginate using the current content container's live DOM
+   * (split blocks recombined), from the edited page on. Called after
+   * user edits.
    */
   rePaginate(): PaginationResult {
-    if (!this.contentContainer) {
+    if (!this.contentContainer || !this.measureContainer) {
       return this.paginationResult;
     }
 
-    // Measure from the live content
-    const measurements = this.layoutEngine.measureBlocks(this.contentContainer);
-    this.paginationResult = this.layoutEngine.paginate(measurements);
+    const blocks = recombineSplitBlocks(
+      Array.from(this.contentContainer.children, (el) => el.outerHTML)
+    );
+    this.paginationResult = this.layoutEngine.repaginateDocument(
+      this.measureContainer,
+      blocks.join('\n'),
+      { css: this.sourceCSS }
+    );
+    this.layoutWatcher?.observeBlocks(this.contentContainer.children);
 
     // Notify
     this.paginationCallbacks.forEach((cb) => cb(this.paginationResult));
@@ -177,6 +180,12 @@ export class DocumentEngine {
     this.contentContainer = container;
     this.editableManager.attach(container);
 
+    // Re-paginate when blocks change size without an edit
+    this.layoutWatcher?.disconnect();
+    this.layoutWatcher = new LayoutWatcher(() => this.rePaginate());
+    this.layoutWatcher.watch(container, this.layoutEngine.getMeasurementCache());
+    this.layoutWatcher.observeBlocks(container.children);
+
     // Re-paginate on content change
     this.editableManager.onChange(() => {
       // Update source HTML from live DOM
@@ -235,6 +244,8 @@ export class DocumentEngine {
 
   destroy(): void {
     this.editableManager.detach();
+    this.layoutWatcher?.disconnect();
+    this.layoutWatcher = null;
     this.paginationCallbacks.clear();
     this.changeCallbacks.clear();
     this.measureContainer = null;
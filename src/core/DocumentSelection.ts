@@ -0,0 +1,142 @@
+// ============================================================
+// DocumentSelection — Selection save / restore by block + offset
+// ============================================================
+// Converts the browser selection to (block index, text offset)
+// pairs and back, so that a selection survives re-rendering or
+// re-paginating the document.
+//
+// A block may be rendered as several roots (a block split across
+// pages); their text is counted as one run. Content cloned into a
+// continuation part only for display (repeated table headers) is
+// skipped so offsets match the recombined block.
+// ============================================================
+
+import type { BlockSelectionPoint, DocumentSelection } from './types';
+
+/** Live DOM roots of each top-level block, in document order */
+export type BlockRoots = Node[][];
+
+const CLONE_SELECTOR = '[data-dopecanvas-split-clone]';
+
+/**
+ * Capture a selection (default: the current one) or a saved range,
+ * or null if it is outside the blocks.
+ */
+export function captureDocumentSelection(
+  roots: BlockRoots,
+  source: Selection | AbstractRange | null = window.getSelection()
+): DocumentSelection | null {
+  if (!source) return null;
+
+  let anchorNode: Node | null;
+  let anchorOffset: number;
+  let focusNode: Node | null;
+  let focusOffset: number;
+  if (source instanceof Selection) {
+    if (source.rangeCount === 0) return null;
+    ({ anchorNode, anchorOffset, focusNode, focusOffset } = source);
+  } else {
+    anchorNode = source.startContainer;
+    anchorOffset = source.startOffset;
+    focusNode = source.endContainer;
+    focusOffset = source.endOffset;
+  }
+  if (!anchorNode || !focusNode) return null;
+
+  const anchor = locatePoint(roots, anchorNode, anchorOffset);
+  const focus = locatePoint(roots, focusNode, focusOffset);
+  if (!anchor || !focus) return null;
+  return { anchor, focus };
+}
+
+/** Put the selection back. Returns false if it could not be placed. */
+export function restoreDocumentSelection(
+  roots: BlockRoots,
+  target: DocumentSelection,
+  selection: Selection | null = window.getSelection()
+): boolean {
+  if (!selection) return false;
+  const anchor = resolvePoint(roots, target.anchor);
+  const focus = resolvePoint(roots, target.focus);
+  if (!anchor || !focus) return false;
+
+  try {
+    selection.setBaseAndExtent(anchor.node, anchor.offset, focus.node, focus.offset);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Length of a root's text as counted by selection offsets (content
+ * cloned into a split part is skipped).
+ */
+export function textLength(root: Node): number {
+  return textNodesOf(root).reduce((sum, t) => sum + t.length, 0);
+}
+
+// ----------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------
+
+/** Text nodes of a root in document order, skipping split clones */
+function textNodesOf(root: Node): Text[] {
+  if (root.nodeType === Node.TEXT_NODE) return [root as Text];
+
+  const nodes: Text[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement?.closest(CLONE_SELECTOR)
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+}
+
+function locatePoint(roots: BlockRoots, node: Node, offset: number): BlockSelectionPoint | null {
+  for (let block = 0; block < roots.length; block++) {
+    let count = 0;
+    for (const root of roots[block]) {
+      if (!root.contains(node)) {
+        count += textLength(root);
+        continue;
+      }
+
+      const point = document.createRange();
+      point.setStart(node, offset);
+      for (const text of textNodesOf(root)) {
+        if (text === node) return { block, offset: count + offset };
+        // Stop at the first text node after the selection point
+        if (point.comparePoint(text, 0) > 0) break;
+        count += text.length;
+      }
+      return { block, offset: count };
+    }
+  }
+  return null;
+}
+
+function resolvePoint(
+  roots: BlockRoots,
+  point: BlockSelectionPoint
+): { node: Node; offset: number } | null {
+  const blockRoots = roots[point.block];
+  if (!blockRoots || blockRoots.length === 0) return null;
+
+  let remaining = point.offset;
+  let lastText: Text | null = null;
+  for (const root of blockRoots) {
+    for (const text of textNodesOf(root)) {
+      if (remaining <= text.length) return { node: text, offset: remaining };
+      remaining -= text.length;
+      lastText = text;
+    }
+  }
+
+  // Offset past the end (content shrank): end of the block
+  if (lastText) return { node: lastText, offset: lastText.length };
+  const lastRoot = blockRoots[blockRoots.length - 1];
+  return { node: lastRoot, offset: lastRoot.childNodes.length };
+}
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EditableManager } from './EditableManager';
+import type { EditableHost } from './EditableManager';
+
+// A minimal host: the logical document is the container's paragraphs,
+// and restoring re-renders them asynchronously like PagedView does.
+function createHost(container: HTMLElement): EditableHost & { setBlocks: ReturnType<typeof vi.fn> } {
+  return {
+    getBlocks: () => Array.from(container.children).map((el) => el.outerHTML),
+    getBlockRoots: () => Array.from(container.children).map((el) => [el]),
+    setBlocks: vi.fn((blocks: string[]) => {
+      setTimeout(() => {
+        container.innerHTML = blocks.join('');
+      }, 0);
+    }),
+  };
+}
+
+/** Host for assertions: the HTML passed to the last setBlocks call */
+function lastRestoredHTML(host: ReturnType<typeof createHost>): string {
+  const calls = host.setBlocks.mock.calls;
+  return (calls[calls.length - 1][0] as string[]).join('');
+}
+
+/** Let MutationObserver callbacks run, then the recording debounce */
+async function settle(): Promise<void> {
+  await Promise.resolve();
+  await vi.advanceTimersByTimeAsync(200);
+}
+
+describe('EditableManager with a host', () => {
+  let container: HTMLElement;
+  let manager: EditableManager;
+  let host: ReturnType<typeof createHost>;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    container = document.createElement('div');
+    container.innerHTML = '<p>One</p>';
+    document.body.appendChild(container);
+    manager = new EditableManager();
+    host = createHost(container);
+    manager.attach(container, host);
+    await settle();
+  });
+
+  afterEach(() => {
+    manager.detach();
+    container.remove();
+    vi.useRealTimers();
+  });
+
+  it('leaves editability of the container to the host', () => {
+    expect((container.firstElementChild as HTMLElement).contentEditable).not.toBe('true');
+  });
+
+  it('restores steps through the host and survives its re-render', async () => {
+    container.innerHTML = '<p>One</p><p>Two</p>';
+    await settle();
+
+    expect(manager.undo()).toBe(true);
+    expect(lastRestoredHTML(host)).toBe('<p>One</p>');
+    await settle();
+    expect(container.innerHTML).toBe('<p>One</p>');
+
+    // The restore re-render must not clear the redo stack
+    expect(manager.redo()).toBe(true);
+    expect(lastRestoredHTML(host)).toBe('<p>One</p><p>Two</p>');
+  });
+
+  it('records pending typing before undoing', async () => {
+    container.innerHTML = '<p>One!</p>';
+    await Promise.resolve(); // observed, but still inside the debounce
+
+    expect(manager.undo()).toBe(true);
+    expect(lastRestoredHTML(host)).toBe('<p>One</p>');
+  });
+
+  it('handles Ctrl+Z and Ctrl+Shift+Z inside the container', async () => {
+    container.innerHTML = '<p>Two</p>';
+    await settle();
+
+    const undo = new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, cancelable: true });
+    container.dispatchEvent(undo);
+    expect(undo.defaultPrevented).toBe(true);
+    expect(lastRestoredHTML(host)).toBe('<p>One</p>');
+    await settle();
+
+    const redo = new KeyboardEvent('keydown', {
+      key: 'Z',
+      ctrlKey: true,
+      shiftKey: true,
+      cancelable: true,
+    });
+    container.dispatchEvent(redo);
+    expect(lastRestoredHTML(host)).toBe('<p>Two</p>');
+  });
+
+  it('starts a fresh history after resetHistory', async () => {
+    container.innerHTML = '<p>Two</p>';
+    await settle();
+
+    manager.resetHistory();
+    container.innerHTML = '<p>Another document</p>';
+    await settle();
+
+    expect(manager.undo()).toBe(false);
+  });
+
+  it('hands the selection from before the edit back to the host', async () => {
+    const text = container.firstElementChild!.firstChild as Text;
+    window.getSelection()!.collapse(text, 2);
+    document.dispatchEvent(new Event('selectionchange'));
+
+    text.data = 'One more';
+    window.getSelection()!.collapse(text, 8);
+    await settle();
+
+    manager.undo();
+    expect(host.setBlocks).toHaveBeenLastCalledWith(['<p>One</p>'], {
+      anchor: { block: 0, offset: 2 },
+      focus: { block: 0, offset: 2 },
+    });
+  });
+
+  it('reports canUndo / canRedo changes', async () => {
+    const states: boolean[][] = [];
+    manager.onHistoryChange((state) => states.push([state.canUndo, state.canRedo]));
+    expect(manager.canUndo()).toBe(false);
+
+    container.innerHTML = '<p>Two</p>';
+    await settle();
+    manager.undo();
+    await settle();
+
+    expect(states).toEqual([[true, false], [false, true]]);
+    expect(manager.canRedo()).toBe(true);
+  });
+
+  it('keeps typing and a following structural edit as separate steps', async () => {
+    container.innerHTML = '<p>One!</p>';
+    await Promise.resolve();
+
+    manager.flushPendingChanges();
+    container.innerHTML = '<p>One!</p><p>New block</p>';
+    await settle();
+
+    manager.undo();
+    expect(lastRestoredHTML(host)).toBe('<p>One!</p>');
+    await settle();
+    manager.undo();
+    expect(lastRestoredHTML(host)).toBe('<p>One</p>');
+  });
+});
@@ -3,25 +3,73 @@
 // ============================================================
 // Manages making block elements editable, tracking changes
 // via MutationObserver, and providing undo/redo.
+//
+// The container is either owned outright (its child nodes are the
+// document's blocks) or rendered by a host such as PagedView, in
+// which case history reads and restores the host's logical blocks.
+//
+// History is operation-based (see UndoHistory): each step stores
+// the changed block range and the selection before / after it.
 // ============================================================
 
-import type { UndoSnapshot, Unsubscribe, ToolbarContext } from './types';
+import type {
+  DocumentSelection,
+  HistoryState,
+  Unsubscribe,
+  ToolbarContext,
+} from './types';
+import { UndoHistory } from './UndoHistory';
+import type { HistoryRestore } from './UndoHistory';
+import { captureDocumentSelection, restoreDocumentSelection } from './DocumentSelection';
+import type { BlockRoots } from './DocumentSelection';
 
 export type ChangeCallback = () => void;
 export type ContextChangeCallback = (context: ToolbarContext) => void;
+export type HistoryChangeCallback = (state: HistoryState) => void;
+
+/**
+ * A host that renders the container itself (e.g. across page frames).
+ * Undo history records the host's logical blocks and hands them back
+ * through `setBlocks()` instead of rewriting the container's innerHTML.
+ */
+export interface EditableHost {
+  /** Current document as top-level block HTML strings */
+  getBlocks: () => string[];
+  /** Live DOM roots of each block (several for a block split across pages) */
+  getBlockRoots: () => BlockRoots;
+  /** Replace the document (re-render / re-paginate), then restore the selection */
+  setBlocks: (blocks: string[], selection: DocumentSelection | null) => void;
+}
 
 export class EditableManager {
   private observer: MutationObserver | null = null;
   private changeCallbacks: Set<ChangeCallback> = new Set();
   private contextCallbacks: Set<ContextChangeCallback> = new Set();
-  private undoStack: UndoSnapshot[] = [];
-  private redoStack: UndoSnapshot[] = [];
+  private historyCallbacks: Set<HistoryChangeCallback> = new Set();
+  private history = new UndoHistory();
+  private historyState: HistoryState = { canUndo: false, canRedo: false };
   private container: HTMLElement | null = null;
+  private host: EditableHost | null = null;
+  /**
+   * After a host restore ('resync') or a history reset ('reset') the
+   * next re-render is not an edit: it is adopted without a new step.
+   */
+  private pendingSync: 'none' | 'resync' | 'reset' = 'none';
+  /** Kind of the next recorded step ('structure' after flushPendingChanges) */
+  private nextStepKind: 'typing' | 'structure' = 'typing';
+  /**
+   * Last selection inside the container, before the pending edit began.
+   * Static, so that the edit itself does not move its boundaries.
+   */
+  private lastRange: StaticRange | null = null;
+  /** Selection captured when the pending batch of mutations began */
+  private selectionBefore: DocumentSelection | null = null;
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private selectionHandler: (() => void) | null = null;
+  private keyHandler: ((e: KeyboardEvent) => void) | null = null;
+  private beforeInputHandler: ((e: InputEvent) => void) | null = null;
   private currentContext: ToolbarContext = 'none';
 
-  private static readonly MAX_UNDO_STACK = 100;
   private static readonly DEBOUNCE_MS = 150;
 
   // ----------------------------------------------------------
@@ -31,16 +79,23 @@ export class EditableManager {
   /**
    * Attach to a container element. Sets up contentEditable on
    * all direct child blocks and starts observing changes.
+   *
+   * Pass a `host` when the container is rendered by someone else:
+   * editability is then left to the host, and undo/redo go through
+   * its logical blocks.
    */
-  attach(container: HTMLElement): void {
+  attach(container: HTMLElement, host?: EditableHost): void {
     this.detach(); // Clean up any previous attachment
     this.container = container;
+    this.host = host ?? null;
 
     // Make all direct children editable
-    this.makeChildrenEditable(container);
+    if (!this.host) {
+      this.makeChildrenEditable(container);
+    }
 
-    // Take initial snapshot for undo
-    this.pushUndoSnapshot();
+    // Adopt the current content as the recorded state for undo
+    this.history.resync(this.readBlocks());
 
     // Start observing mutations
     this.observer = new MutationObserver(this.handleMutations);
@@ -55,6 +110,13 @@ export class EditableManager {
     // Listen for selection changes to detect context
     this.selectionHandler = this.handleSelectionChange.bind(this);
     document.addEventListener('selectionchange', this.selectionHandler);
+
+    // Route Ctrl/Cmd+Z and Edit-menu undo to the document-wide history
+    // instead of the browser's per-contentEditable native undo
+    this.keyHandler = this.handleKeyDown.bind(this);
+    this.beforeInputHandler = this.handleBeforeInput.bind(this);
+    container.addEventListener('keydown', this.keyHandler);
+    container.addEventListener('beforeinput', this.beforeInputHandler);
   }
 
   /**
@@ -69,11 +131,23 @@ export class EditableManager {
       document.removeEventListener('selectionchange', this.selectionHandler);
       this.selectionHandler = null;
     }
+    if (this.container && this.keyHandler) {
+      this.container.removeEventListener('keydown', this.keyHandler);
+      this.keyHandler = null;
+    }
+    if (this.container && this.beforeInputHandler) {
+      this.container.removeEventListener('beforeinput', this.beforeInputHandler);
+      this.beforeInputHandler = null;
+    }
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
       this.debounceTimer = null;
     }
     this.container = null;
+    this.host = null;
+    this.pendingSync = 'none';
+    this.lastRange = null;
+    this.selectionBefore = null;
   }
 
   // ----------------------------------------------------------
@@ -111,13 +185,65 @@ export class EditableManager {
     // Debounce to avoid excessive re-pagination
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
+    } else {
+      // First mutation of a batch: remember where the selection was
+      this.selectionBefore = this.captureSelection(this.lastRange);
     }
     this.debounceTimer = setTimeout(() => {
-      this.pushUndoSnapshot();
+      this.debounceTimer = null;
+      this.recordChange();
       this.notifyChange();
     }, EditableManager.DEBOUNCE_MS);
   };
 
+  /**
+   * Record any change still waiting on the debounce right away, and
+   * make the next recorded change a step of its own. Hosts call this
+   * before a structural edit (add / delete block, page break, …) so
+   * that pending typing and the edit are undone separately.
+   */
+  flushPendingChanges(): void {
+    this.commitPendingTyping();
+    this.history.closeGroup();
+    this.nextStepKind = 'structure';
+    this.selectionBefore = this.captureSelection();
+  }
+
+  /** Record typing still waiting on the debounce */
+  private commitPendingTyping(): void {
+    if (!this.debounceTimer) return;
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    this.recordChange();
+    this.notifyChange();
+  }
+
+  // ----------------------------------------------------------
+  // Keyboard shortcuts
+  // ----------------------------------------------------------
+
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      this.undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      this.redo();
+    }
+  }
+
+  private handleBeforeInput(e: InputEvent): void {
+    if (e.inputType === 'historyUndo') {
+      e.preventDefault();
+      this.undo();
+    } else if (e.inputType === 'historyRedo') {
+      e.preventDefault();
+      this.redo();
+    }
+  }
+
   // ----------------------------------------------------------
   // Selection / context detection
   // ----------------------------------------------------------
@@ -132,6 +258,12 @@ export class EditableManager {
     const range = selection.getRangeAt(0);
     const node = range.startContainer;
 
+    // Track the selection between edits (not while one is pending,
+    // so the step keeps the selection from before the edit)
+    if (!this.debounceTimer && this.container.contains(node)) {
+      this.lastRange = new StaticRange(range);
+    }
+
     // Walk up from the selection to find context
     let current: Node | null = node;
     while (current && current !== this.container) {
@@ -176,51 +308,118 @@ export class EditableManager {
   // Undo / Redo
   // ----------------------------------------------------------
 
-  private pushUndoSnapshot(): void {
+  /** Record the document's current state as an undo step */
+  private recordChange(): void {
     if (!this.container) return;
-    const html = this.container.innerHTML;
-    const last = this.undoStack[this.undoStack.length - 1];
-    // Don't push duplicates
-    if (last && last.html === html) return;
-
-    this.undoStack.push({ html, timestamp: Date.now() });
-    // Clear redo stack on new change
-    this.redoStack = [];
-    // Limit stack size
-    if (this.undoStack.length > EditableManager.MAX_UNDO_STACK) {
-      this.undoStack.shift();
+    const blocks = this.readBlocks();
+
+    if (this.pendingSync !== 'none') {
+      if (this.pendingSync === 'reset') {
+        this.history.reset(blocks);
+      } else {
+        this.history.resync(blocks);
+      }
+      this.pendingSync = 'none';
+    } else {
+      const selectionAfter = this.captureSelection();
+      this.history.record(
+        blocks,
+        this.selectionBefore ?? selectionAfter,
+        selectionAfter,
+        this.nextStepKind
+      );
     }
+
+    this.nextStepKind = 'typing';
+    this.selectionBefore = null;
+    this.notifyHistoryChange();
   }
 
   undo(): boolean {
-    if (!this.container || this.undoStack.length <= 1) return false;
+    if (!this.container) return false;
+    this.commitPendingTyping();
+    const restored = this.history.undo();
+    if (!restored) return false;
 
-    // Pop current state to redo stack
-    const current = this.undoStack.pop()!;
-    this.redoStack.push(current);
-
-    // Restore previous state
-    const previous = this.undoStack[this.undoStack.length - 1];
-    this.pauseObserver(() => {
-      this.container!.innerHTML = previous.html;
-      this.makeChildrenEditable(this.container!);
-    });
+    this.restore(restored);
     this.notifyChange();
+    this.notifyHistoryChange();
     return true;
   }
 
   redo(): boolean {
-    if (!this.container || this.redoStack.length === 0) return false;
+    if (!this.container) return false;
+    this.commitPendingTyping();
+    const restored = this.history.redo();
+    if (!restored) return false;
 
-    const next = this.redoStack.pop()!;
-    this.undoStack.push(next);
+    this.restore(restored);
+    this.notifyChange();
+    this.notifyHistoryChange();
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.history.getState().canUndo;
+  }
+
+  canRedo(): boolean {
+    return this.history.getState().canRedo;
+  }
+
+  /**
+   * Forget all history. The next recorded state becomes the new
+   * baseline — hosts call this when a different document is loaded.
+   */
+  resetHistory(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.history.reset([]);
+    this.pendingSync = 'reset';
+    this.selectionBefore = null;
+    this.notifyHistoryChange();
+  }
+
+  /** Read the document as top-level blocks */
+  private readBlocks(): string[] {
+    if (this.host) return this.host.getBlocks();
+    if (!this.container) return [];
+    return Array.from(this.container.childNodes).map(serializeNode);
+  }
+
+  /** Live DOM roots of each top-level block */
+  private readBlockRoots(): BlockRoots {
+    if (this.host) return this.host.getBlockRoots();
+    if (!this.container) return [];
+    return Array.from(this.container.childNodes).map((node) => [node]);
+  }
 
+  /** Capture the given range (default: the live selection) by block + offset */
+  private captureSelection(range?: AbstractRange | null): DocumentSelection | null {
+    if (!this.container) return null;
+    if (range === null) return null;
+    return captureDocumentSelection(this.readBlockRoots(), range);
+  }
+
+  /** Put a recorded state back into the document */
+  private restore({ blocks, selection }: HistoryRestore): void {
+    this.lastRange = null;
+    if (this.host) {
+      // The host re-renders asynchronously; its mutations resync the state
+      this.pendingSync = 'resync';
+      this.host.setBlocks(blocks, selection);
+      return;
+    }
     this.pauseObserver(() => {
-      this.container!.innerHTML = next.html;
+      this.container!.innerHTML = blocks.join('');
       this.makeChildrenEditable(this.container!);
     });
-    this.notifyChange();
-    return true;
+    this.history.resync(this.readBlocks());
+    if (selection) {
+      restoreDocumentSelection(this.readBlockRoots(), selection);
+    }
   }
 
   /** Temporarily disconnect observer to avoid feedback loops */
@@ -258,10 +457,30 @@ export class EditableManager {
     };
   }
 
+  /** Listen for canUndo / canRedo changes */
+  onHistoryChange(callback: HistoryChangeCallback): Unsubscribe {
+    this.historyCallbacks.add(callback);
+    return () => {
+      this.historyCallbacks.delete(callback);
+    };
+  }
+
   private notifyChange(): void {
     this.changeCallbacks.forEach((cb) => cb());
   }
 
+  private notifyHistoryChange(): void {
+    const state = this.history.getState();
+    if (
+      state.canUndo === this.historyState.canUndo &&
+      state.canRedo === this.historyState.canRedo
+    ) {
+      return;
+    }
+    this.historyState = state;
+    this.historyCallbacks.forEach((cb) => cb(state));
+  }
+
   // ----------------------------------------------------------
   // Formatting commands
   // ----------------------------------------------------------
@@ -289,12 +508,25 @@ export class EditableManager {
   // ----------------------------------------------------------
 
   getHTML(): string {
-    if (!this.container) return '';
-    return this.container.innerHTML;
+    if (this.host) return this.host.getBlocks().join('\n');
+    return this.container ? this.container.innerHTML : '';
   }
 
   getPlainText(): string {
     if (!this.container) return '';
+    if (this.host) {
+      const tmp = document.createElement('div');
+      tmp.innerHTML = this.getHTML();
+      return tmp.innerText || tmp.textContent || '';
+    }
     return this.container.innerText || this.container.textContent || '';
   }
 }
+
+/** Serialize a top-level child node (element or text) back to HTML */
+function serializeNode(node: Node): string {
+  if (node instanceof Element) return node.outerHTML;
+  const tmp = document.createElement('div');
+  tmp.appendChild(node.cloneNode(true));
+  return tmp.innerHTML;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { findFootnotes, numberFootnotes } from './Footnotes';
+
+describe('Footnotes', () => {
+  it('finds the notes a block references, in order', () => {
+    const block =
+      '<p>Revenue<span data-dopecanvas-footnote>Unaudited.</span> grew' +
+      '<span data-dopecanvas-footnote>See <i>note 4</i>.</span></p>';
+    expect(findFootnotes(block)).toEqual(['Unaudited.', 'See <i>note 4</i>.']);
+    expect(findFootnotes('<p>No notes</p>')).toEqual([]);
+  });
+
+  it('skips notes in content cloned into a split part', () => {
+    const part =
+      '<table><thead data-dopecanvas-split-clone=""><tr><th>Q<span data-dopecanvas-footnote>Fiscal.</span></th></tr></thead>' +
+      '<tbody><tr><td>1<span data-dopecanvas-footnote>Estimate.</span></td></tr></tbody></table>';
+    expect(findFootnotes(part)).toEqual(['Estimate.']);
+  });
+
+  it('numbers notes through the document, page by page', () => {
+    const note = (text: string) => `<p>x<span data-dopecanvas-footnote>${text}</span></p>`;
+    expect(numberFootnotes([[note('a'), '<p>y</p>'], [], [note('b') + note('c')]])).toEqual([
+      [{ number: 1, html: 'a' }],
+      [],
+      [
+        { number: 2, html: 'b' },
+        { number: 3, html: 'c' },
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+// ============================================================
+// Footnotes — Notes placed at the bottom of the referencing page
+// ============================================================
+// A footnote is written inline where it is referenced:
+//
+//   <p>Revenue grew 12%<span data-dopecanvas-footnote>Unaudited.</span>.</p>
+//
+// On the page the span shows only an auto-numbered superscript
+// marker (FOOTNOTE_CSS numbers the markers with a CSS counter,
+// which each page resets to the number of notes before it); its
+// text is listed in a footnote area at the bottom of the page the
+// marker lands on. The note stays inside its paragraph, so it
+// moves with its reference on every reflow.
+//
+// Pagination reserves the footnote area: the notes' measured
+// heights plus a separator rule, once per page with notes.
+// ============================================================
+
+import type { BlockMeasurer } from './types';
+import { DomBlockMeasurer } from './BlockMeasurer';
+
+/** Attribute marking a footnote span; its content is the note */
+export const FOOTNOTE_ATTR = 'data-dopecanvas-footnote';
+
+/** Height of the separator rule and gap above a page's notes, in pixels */
+export const FOOTNOTE_SEPARATOR = 16;
+
+/** Text style of the footnote area (plain object: DOM and React) */
+export const FOOTNOTE_STYLE = {
+  fontSize: '10px',
+  lineHeight: '1.4',
+  color: '#444',
+};
+
+/** CSS counter numbering the markers (reset by each page, see Page) */
+export const FOOTNOTE_COUNTER = 'dopecanvas-footnote';
+
+/** Marker styles: hide the note text inline, show its number instead */
+export const FOOTNOTE_CSS = `
+.dopecanvas-paged-view { counter-reset: ${FOOTNOTE_COUNTER}; }
+.dopecanvas-paged-view [${FOOTNOTE_ATTR}] {
+  counter-increment: ${FOOTNOTE_COUNTER};
+  font-size: 0;
+}
+.dopecanvas-paged-view [data-dopecanvas-split-clone] [${FOOTNOTE_ATTR}] {
+  counter-increment: none;
+}
+.dopecanvas-paged-view [${FOOTNOTE_ATTR}]::after {
+  content: counter(${FOOTNOTE_COUNTER});
+  font-size: 0.7rem;
+  vertical-align: super;
+  line-height: 0;
+}
+`;
+
+/** A footnote as listed in a page's footnote area */
+export interface Footnote {
+  number: number;
+  /** The note's HTML */
+  html: string;
+}
+
+const FOOTNOTE_SELECTOR = `[${FOOTNOTE_ATTR}]`;
+const CLONE_SELECTOR = '[data-dopecanvas-split-clone]';
+
+/**
+ * The notes referenced from a block (element or HTML), in document
+ * order. Content cloned into a split part for display only
+ * (repeated table headers) is skipped.
+ */
+export function findFootnotes(block: Element | string): string[] {
+  let root: Element | DocumentFragment;
+  if (typeof block === 'string') {
+    // Cheap check first: most blocks have no notes
+    if (!block.includes(FOOTNOTE_ATTR)) return [];
+    const template = document.createElement('template');
+    template.innerHTML = block;
+    root = template.content;
+  } else {
+    root = block;
+  }
+
+  const notes: string[] = [];
+  root.querySelectorAll(FOOTNOTE_SELECTOR).forEach((span) => {
+    if (span.closest(CLONE_SELECTOR)) return;
+    notes.push(span.innerHTML);
+  });
+  return notes;
+}
+
+/**
+ * Number the notes of each page (given its blocks' HTML) in
+ * document order, continuing across pages.
+ */
+export function numberFootnotes(pages: string[][]): Footnote[][] {
+  let number = 0;
+  return pages.map((blocks) =>
+    blocks.flatMap(findFootnotes).map((html) => ({ number: ++number, html }))
+  );
+}
+
+/**
+ * Create a function returning the height of the notes a block (or
+ * block part) references, measured at the footnote area `width`
+ * inside `container`. Heights are cached per note.
+ */
+export function createFootnoteMeasurer(
+  container: HTMLElement,
+  width: number,
+  measurer: BlockMeasurer = new DomBlockMeasurer()
+): (block: Element | string) => number {
+  const heights = new Map<string, number>();
+
+  const measureNote = (html: string): number => {
+    const cached = heights.get(html);
+    if (cached !== undefined) return cached;
+
+    const el = document.createElement('div');
+    Object.assign(el.style, FOOTNOTE_STYLE);
+    el.style.width = `${width}px`;
+    el.innerHTML = `<sup>0</sup> ${html}`;
+    container.appendChild(el);
+    const height = measurer.measureHeight(el);
+    el.remove();
+    heights.set(html, height);
+    return height;
+  };
+
+  return (block) => findFootnotes(block).reduce((sum, html) => sum + measureNote(html), 0);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  collapseFieldCodes,
+  expandFieldCodes,
+  readDocumentTitle,
+  selectHeaderFooter,
+} from './HeaderFooter';
+import type { HeaderFooterFields } from './HeaderFooter';
+
+const fields: HeaderFooterFields = {
+  page: 3,
+  pages: 12,
+  title: 'Q3 <Report>',
+  date: 'October 19, 2026',
+  section: 'Appendix',
+};
+
+describe('header / footer field codes', () => {
+  it('fills in field values as non-editable spans', () => {
+    const host = document.createElement('div');
+    host.innerHTML = expandFieldCodes('<b>{title}</b> — page {page} of {pages}', fields);
+
+    expect(host.textContent).toBe('Q3 <Report> — page 3 of 12');
+    const spans = host.querySelectorAll('[data-dopecanvas-field]');
+    expect(spans).toHaveLength(3);
+    expect(spans[0].getAttribute('contenteditable')).toBe('false');
+  });
+
+  it('leaves unknown braces alone', () => {
+    expect(expandFieldCodes('{confidential}', fields)).toBe('{confidential}');
+  });
+
+  it('collapses an edited template back to field codes', () => {
+    const host = document.createElement('div');
+    host.innerHTML = expandFieldCodes('{section} · {date}', fields);
+
+    // The user edits the text around the fields
+    host.insertBefore(document.createTextNode('Confidential — '), host.firstChild);
+
+    expect(collapseFieldCodes(host.innerHTML)).toBe('Confidential — {section} · {date}');
+  });
+});
+
+describe('selectHeaderFooter', () => {
+  const options = {
+    header: 'Odd header',
+    footer: 'Odd footer',
+    evenPageHeader: 'Even header',
+    evenPageFooter: 'Even footer',
+  };
+
+  it('uses the first-page templates only on page 1 when enabled', () => {
+    const cover = selectHeaderFooter({ ...options, differentFirstPage: true }, 1);
+    expect(cover).toEqual({
+      headerKey: 'firstPageHeader',
+      footerKey: 'firstPageFooter',
+      header: '',
+      footer: '',
+    });
+    expect(selectHeaderFooter(options, 1).header).toBe('Odd header');
+  });
+
+  it('alternates odd and even templates when enabled', () => {
+    const mirrored = { ...options, differentOddEven: true };
+    expect(selectHeaderFooter(mirrored, 2).header).toBe('Even header');
+    expect(selectHeaderFooter(mirrored, 3).footerKey).toBe('footer');
+    expect(selectHeaderFooter(options, 2).header).toBe('Odd header');
+  });
+});
+
+describe('readDocumentTitle', () => {
+  it('prefers <title> and falls back to the first <h1>', () => {
+    const parser = new DOMParser();
+    expect(
+      readDocumentTitle(parser.parseFromString('<title>Board Pack</title><h1>Intro</h1>', 'text/html'))
+    ).toBe('Board Pack');
+    expect(
+      readDocumentTitle(parser.parseFromString('<h1> Annual Review </h1><h1>Other</h1>', 'text/html'))
+    ).toBe('Annual Review');
+  });
+});
@@ -0,0 +1,163 @@
+// ============================================================
+// HeaderFooter — Running header / footer templates
+// ============================================================
+// Templates are HTML with field codes in braces:
+//
+//   {page}     current page number
+//   {pages}    total number of pages
+//   {title}    document title (<title>, else the first <h1>)
+//   {date}     today's date, in the reader's locale
+//   {section}  name (or number) of the page's section
+//
+// For display, each field becomes a non-editable span carrying its
+// name, so a template edited in place on the page collapses back
+// to field codes unchanged.
+//
+// A page shows one variant of the templates: the first-page pair
+// and the even-page pair replace `header` / `footer` when enabled.
+// ============================================================
+
+import type { PageConfig } from './types';
+
+/** Values substituted for the field codes of one page */
+export interface HeaderFooterFields {
+  page: number;
+  pages: number;
+  title: string;
+  date: string;
+  section: string;
+}
+
+/** The header / footer settings of a page configuration */
+export type HeaderFooterOptions = Pick<
+  PageConfig,
+  | 'header'
+  | 'footer'
+  | 'differentFirstPage'
+  | 'firstPageHeader'
+  | 'firstPageFooter'
+  | 'differentOddEven'
+  | 'evenPageHeader'
+  | 'evenPageFooter'
+>;
+
+/** PageConfig key holding a header or footer template */
+export type HeaderFooterKey =
+  | 'header'
+  | 'footer'
+  | 'firstPageHeader'
+  | 'firstPageFooter'
+  | 'evenPageHeader'
+  | 'evenPageFooter';
+
+/** All header / footer template keys */
+export const HEADER_FOOTER_KEYS: ReadonlyArray<HeaderFooterKey> = [
+  'header',
+  'footer',
+  'firstPageHeader',
+  'firstPageFooter',
+  'evenPageHeader',
+  'evenPageFooter',
+];
+
+/** The templates a page shows, and the keys they are edited under */
+export interface HeaderFooterVariant {
+  headerKey: HeaderFooterKey;
+  footerKey: HeaderFooterKey;
+  header: string;
+  footer: string;
+}
+
+/** Attribute naming the field a rendered span stands for */
+export const FIELD_ATTR = 'data-dopecanvas-field';
+
+/** Space between the header (or footer) and the body content, in pixels */
+export const HEADER_FOOTER_GAP = 12;
+
+/** Base text style of headers and footers (plain object: DOM and React) */
+export const HEADER_FOOTER_STYLE = {
+  fontSize: '11px',
+  lineHeight: '1.4',
+  color: '#666',
+  fontFamily: 'system-ui, -apple-system, sans-serif',
+};
+
+const FIELD_NAMES: ReadonlyArray<keyof HeaderFooterFields> = [
+  'page',
+  'pages',
+  'title',
+  'date',
+  'section',
+];
+
+const FIELD_PATTERN = new RegExp(`\\{(${FIELD_NAMES.join('|')})\\}`, 'g');
+
+/**
+ * Pick the header / footer variant for a page. `pageNumber` (1-indexed)
+ * decides odd / even; `isFirstPage` marks the first page of the
+ * document or of its section.
+ */
+export function selectHeaderFooter(
+  options: HeaderFooterOptions,
+  pageNumber: number,
+  isFirstPage: boolean = pageNumber === 1
+): HeaderFooterVariant {
+  let headerKey: HeaderFooterKey = 'header';
+  let footerKey: HeaderFooterKey = 'footer';
+  if (options.differentFirstPage && isFirstPage) {
+    headerKey = 'firstPageHeader';
+    footerKey = 'firstPageFooter';
+  } else if (options.differentOddEven && pageNumber % 2 === 0) {
+    headerKey = 'evenPageHeader';
+    footerKey = 'evenPageFooter';
+  }
+  return {
+    headerKey,
+    footerKey,
+    header: options[headerKey] ?? '',
+    footer: options[footerKey] ?? '',
+  };
+}
+
+/**
+ * Replace field codes with their values, each wrapped in a
+ * non-editable span that records the field name.
+ */
+export function expandFieldCodes(template: string, fields: HeaderFooterFields): string {
+  return template.replace(FIELD_PATTERN, (_, name: keyof HeaderFooterFields) =>
+    `<span ${FIELD_ATTR}="${name}" contenteditable="false">${escapeHTML(String(fields[name]))}</span>`
+  );
+}
+
+/** Turn rendered field spans back into field codes */
+export function collapseFieldCodes(html: string): string {
+  const tmp = document.createElement('div');
+  tmp.innerHTML = html;
+  tmp.querySelectorAll(`[${FIELD_ATTR}]`).forEach((span) => {
+    span.replaceWith(`{${span.getAttribute(FIELD_ATTR)}}`);
+  });
+  return tmp.innerHTML;
+}
+
+/** Document title for {title}: the <title>, else the first <h1> */
+export function readDocumentTitle(doc: Document): string {
+  const title = doc.title.trim();
+  if (title) return title;
+  return doc.querySelector('h1')?.textContent?.trim() ?? '';
+}
+
+/** Today's date for {date} */
+export function formatFieldDate(date: Date = new Date()): string {
+  return date.toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LayoutWatcher } from './LayoutWatcher';
+import { MeasurementCache } from './MeasurementCache';
+
+/** ResizeObserver stand-in: tests report the sizes */
+class FakeResizeObserver {
+  static current: FakeResizeObserver | null = null;
+  private callback: ResizeObserverCallback;
+
+  constructor(callback: ResizeObserverCallback) {
+    this.callback = callback;
+    FakeResizeObserver.current = this;
+  }
+
+  observe() {}
+  disconnect() {}
+
+  report(target: Element, height: number) {
+    const entry = { target, contentRect: { height }, borderBoxSize: [{ blockSize: height }] };
+    this.callback([entry as unknown as ResizeObserverEntry], this as unknown as ResizeObserver);
+  }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubGlobal('ResizeObserver', FakeResizeObserver);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  document.body.innerHTML = '';
+});
+
+describe('LayoutWatcher', () => {
+  it('reports images loading after layout once per burst', () => {
+    const onChange = vi.fn();
+    const watcher = new LayoutWatcher(onChange);
+    const cache = new MeasurementCache();
+    const root = document.createElement('div');
+    root.innerHTML = '<p><img src="a.png"></p><p><img src="b.png"></p>';
+    document.body.appendChild(root);
+
+    // Both blocks were measured while their images were loading
+    root.querySelectorAll('p').forEach((p) => cache.set(p, 100, '', 20));
+    watcher.watch(root, cache);
+    root.querySelectorAll('img').forEach((img) => img.dispatchEvent(new Event('load')));
+
+    expect(onChange).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(100);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    watcher.disconnect();
+  });
+
+  it('reports blocks changing height, not their first size', () => {
+    const onChange = vi.fn();
+    const watcher = new LayoutWatcher(onChange);
+    const block = document.createElement('div');
+    watcher.observeBlocks([block]);
+    const observer = FakeResizeObserver.current!;
+
+    observer.report(block, 40);
+    vi.advanceTimersByTime(100);
+    expect(onChange).not.toHaveBeenCalled();
+
+    // A chart script sizes its canvas
+    observer.report(block, 300);
+    vi.advanceTimersByTime(100);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    watcher.disconnect();
+  });
+});
@@ -0,0 +1,89 @@
+// ============================================================
+// LayoutWatcher — Notices blocks changing size without an edit
+// ============================================================
+// Pagination runs as soon as the HTML is in place, often before
+// images have loaded, web fonts have swapped in or scripts (charts)
+// have sized their output. The watcher reports when the layout has
+// gone stale so the host can re-paginate:
+//
+//   - resource loads, through the MeasurementCache: the heights it
+//     drops when fonts or pending images load (see observe)
+//   - size changes of the rendered blocks, with a ResizeObserver
+//
+// Changes arriving together (a page of images) are reported once,
+// after `settleMs` without further changes.
+// ============================================================
+
+import type { Unsubscribe } from './types';
+import type { MeasurementCache } from './MeasurementCache';
+
+export class LayoutWatcher {
+  private onChange: () => void;
+  private settleMs: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  /** Last height seen of each observed block */
+  private heights: WeakMap<Element, number> = new WeakMap();
+  private unsubscribers: Unsubscribe[] = [];
+
+  /**
+   * @param onChange  Called once the layout of the watched blocks is stale
+   * @param settleMs  Quiet time before reporting a burst of changes
+   */
+  constructor(onChange: () => void, settleMs = 100) {
+    this.onChange = onChange;
+    this.settleMs = settleMs;
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(this.handleResize);
+    }
+  }
+
+  /**
+   * Report fonts and images loading inside `root` (where the blocks
+   * are shown) that invalidate heights in `cache`.
+   */
+  watch(root: HTMLElement, cache: MeasurementCache): void {
+    this.unsubscribers.push(cache.observe(root), cache.onInvalidate(() => this.schedule()));
+  }
+
+  /**
+   * Watch the heights of these rendered blocks (replacing the blocks
+   * watched before). A block's first size report is its baseline.
+   */
+  observeBlocks(blocks: Iterable<Element>): void {
+    if (!this.resizeObserver) return;
+    this.resizeObserver.disconnect();
+    for (const block of blocks) this.resizeObserver.observe(block);
+  }
+
+  disconnect(): void {
+    this.resizeObserver?.disconnect();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // ----------------------------------------------------------
+  // Helpers
+  // ----------------------------------------------------------
+
+  private handleResize = (entries: ResizeObserverEntry[]): void => {
+    let changed = false;
+    for (const entry of entries) {
+      const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+      const previous = this.heights.get(entry.target);
+      this.heights.set(entry.target, height);
+      if (previous !== undefined && Math.abs(previous - height) >= 0.5) changed = true;
+    }
+    if (changed) this.schedule();
+  };
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.onChange();
+    }, this.settleMs);
+  }
+}
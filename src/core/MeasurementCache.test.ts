@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MeasurementCache } from './MeasurementCache';
+import { DeterministicBlockMeasurer } from './BlockMeasurer';
+import { PageLayoutEngine } from './PageLayoutEngine';
+
+function block(html: string): HTMLElement {
+  const host = document.createElement('div');
+  host.innerHTML = html;
+  document.body.appendChild(host);
+  return host.firstElementChild as HTMLElement;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  document.body.innerHTML = '';
+});
+
+describe('MeasurementCache', () => {
+  it('keys heights by block HTML, width and CSS, counting hits and misses', () => {
+    const cache = new MeasurementCache();
+    const p = block('<p>Text</p>');
+    cache.set(p, 600, 'p { margin: 0 }', 20);
+
+    expect(cache.get('<p>Text</p>', 600, 'p { margin: 0 }')).toBe(20);
+    expect(cache.get('<p>Text</p>', 300, 'p { margin: 0 }')).toBeUndefined();
+    expect(cache.get('<p>Text</p>', 600, '')).toBeUndefined();
+    expect(cache.get('<p>Other</p>', 600, 'p { margin: 0 }')).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 3, entries: 1 });
+
+    cache.resetStats();
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 0, entries: 1 });
+  });
+
+  it('evicts the least recently used heights', () => {
+    const cache = new MeasurementCache(2);
+    cache.set(block('<p>a</p>'), 100, '', 1);
+    cache.set(block('<p>b</p>'), 100, '', 2);
+    cache.get('<p>a</p>', 100);
+    cache.set(block('<p>c</p>'), 100, '', 3);
+
+    expect(cache.get('<p>a</p>', 100)).toBe(1);
+    expect(cache.get('<p>b</p>', 100)).toBeUndefined();
+    expect(cache.get('<p>c</p>', 100)).toBe(3);
+  });
+
+  it('drops heights measured before an image or the fonts loaded', () => {
+    const cache = new MeasurementCache();
+    const onInvalidate = vi.fn();
+    cache.onInvalidate(onInvalidate);
+    const figure = block('<figure><img src="chart.png"></figure>');
+    cache.set(figure, 100, '', 24);
+    cache.set(block('<p>Text</p>'), 100, '', 20);
+
+    const root = document.createElement('div');
+    root.innerHTML = figure.outerHTML;
+    document.body.appendChild(root);
+    const stop = cache.observe(root);
+    root.querySelector('img')!.dispatchEvent(new Event('load'));
+
+    expect(cache.get(figure.outerHTML, 100)).toBeUndefined();
+    expect(cache.get('<p>Text</p>', 100)).toBe(20);
+    expect(onInvalidate).toHaveBeenCalledTimes(1);
+
+    cache.clear();
+    expect(cache.getStats().entries).toBe(0);
+    expect(onInvalidate).toHaveBeenCalledTimes(2);
+    stop();
+  });
+
+  it('lets a layout engine lay a document out again without measuring', () => {
+    const engine = new PageLayoutEngine(
+      { size: { width: 300, height: 200 }, margins: { top: 0, right: 0, bottom: 0, left: 0 } },
+      new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2 })
+    );
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const html = Array.from({ length: 12 }, (_, i) => `<p>Paragraph ${i + 1}</p>`).join('');
+    const first = engine.paginateDocument(container, html, { css: 'p { color: red }' });
+
+    const measureHeight = vi.spyOn(engine.getMeasurer(), 'measureHeight');
+    const cache = engine.getMeasurementCache();
+    cache.resetStats();
+    expect(engine.paginateDocument(container, html, { css: 'p { color: red }' })).toEqual(first);
+    expect(cache.getStats()).toMatchObject({ hits: 12, misses: 0 });
+    expect(measureHeight).not.toHaveBeenCalled();
+
+    // Other CSS may change every height
+    engine.paginateDocument(container, html, { css: 'p { color: blue }' });
+    expect(cache.getStats()).toMatchObject({ hits: 12, misses: 12 });
+    expect(measureHeight).toHaveBeenCalledTimes(12);
+  });
+});
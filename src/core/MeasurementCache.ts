@@ -0,0 +1,178 @@
+// ============================================================
+// MeasurementCache — Block heights kept across layouts
+// ============================================================
+// Measuring is the expensive part of pagination. The cache keeps
+// each block's measured height keyed by a hash of its HTML, the
+// width it was measured at and a hash of the document CSS, so a
+// layout that sees the same block again (reloading a document,
+// zoom, page-break display, an edit elsewhere) reuses the height.
+//
+// A cached height is only as good as the resources it was measured
+// with: when web fonts finish loading every height is dropped, and
+// when an image that was still loading at measure time arrives the
+// heights of the blocks showing it are dropped (see observe).
+//
+// The least recently used heights are evicted past `maxEntries`.
+// Hit / miss counts are kept for profiling large documents.
+// ============================================================
+
+import type { Unsubscribe } from './types';
+
+/** Cache counters since creation (or the last resetStats) */
+export interface MeasurementCacheStats {
+  hits: number;
+  misses: number;
+  /** Heights currently cached */
+  entries: number;
+}
+
+interface CacheEntry {
+  height: number;
+  /** Images that had not loaded when the block was measured */
+  pendingImages: string[];
+}
+
+export class MeasurementCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private invalidateCallbacks: Set<() => void> = new Set();
+  private maxEntries: number;
+
+  /** @param maxEntries  Heights kept before the least recently used are evicted */
+  constructor(maxEntries = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  /** Cached height of a block measured at `width` with `css`, if any */
+  get(html: string, width: number, css = ''): number | undefined {
+    const key = cacheKey(html, width, css);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    // Most recently used last
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.height;
+  }
+
+  /** Remember the height of `block` (its HTML) measured at `width` with `css` */
+  set(block: HTMLElement, width: number, css: string, height: number): void {
+    const pendingImages = Array.from(block.querySelectorAll('img'))
+      .filter((img) => img.src && !img.complete)
+      .map((img) => img.src);
+    if (block instanceof HTMLImageElement && block.src && !block.complete) {
+      pendingImages.push(block.src);
+    }
+    this.entries.set(cacheKey(block.outerHTML, width, css), { height, pendingImages });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  getStats(): MeasurementCacheStats {
+    return { hits: this.hits, misses: this.misses, entries: this.entries.size };
+  }
+
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  // ----------------------------------------------------------
+  // Invalidation
+  // ----------------------------------------------------------
+
+  /** Drop every cached height (e.g. fonts changed) */
+  clear(): void {
+    if (this.entries.size === 0) return;
+    this.entries.clear();
+    this.notifyInvalidate();
+  }
+
+  /** Drop the heights of blocks measured before the image at `src` loaded */
+  invalidateImage(src: string): void {
+    let dropped = false;
+    for (const [key, entry] of this.entries) {
+      if (entry.pendingImages.includes(src)) {
+        this.entries.delete(key);
+        dropped = true;
+      }
+    }
+    if (dropped) this.notifyInvalidate();
+  }
+
+  /** Called whenever cached heights are dropped */
+  onInvalidate(callback: () => void): Unsubscribe {
+    this.invalidateCallbacks.add(callback);
+    return () => this.invalidateCallbacks.delete(callback);
+  }
+
+  /**
+   * Invalidate on resource loads: every height when the document's
+   * fonts finish loading (including those loading now, once
+   * `document.fonts.ready` settles), and the blocks waiting for an
+   * image when an `<img>` inside `root` (where the blocks are shown)
+   * loads or fails.
+   */
+  observe(root: HTMLElement): Unsubscribe {
+    const fonts = root.ownerDocument.fonts as FontFaceSet | undefined;
+    let observing = true;
+    const onFonts = () => {
+      if (observing) this.clear();
+    };
+    const onImage = (e: Event) => {
+      if (e.target instanceof HTMLImageElement && e.target.src) {
+        this.invalidateImage(e.target.src);
+      }
+    };
+
+    fonts?.addEventListener('loadingdone', onFonts);
+    if (fonts?.status === 'loading') fonts.ready.then(onFonts);
+    root.addEventListener('load', onImage, true);
+    root.addEventListener('error', onImage, true);
+    return () => {
+      observing = false;
+      fonts?.removeEventListener('loadingdone', onFonts);
+      root.removeEventListener('load', onImage, true);
+      root.removeEventListener('error', onImage, true);
+    };
+  }
+
+  private notifyInvalidate(): void {
+    this.invalidateCallbacks.forEach((cb) => cb());
+  }
+}
+
+// ----------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------
+
+/** The CSS of the last lookup and its hash (one document's CSS is looked up per block) */
+let lastCss = '';
+let lastCssHash = hashString('');
+
+function cacheKey(html: string, width: number, css: string): string {
+  if (css !== lastCss) {
+    lastCss = css;
+    lastCssHash = hashString(css);
+  }
+  return `${hashString(html)}:${html.length}|${width}|${lastCssHash}`;
+}
+
+/** 53-bit string hash (cyrb53) */
+export function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
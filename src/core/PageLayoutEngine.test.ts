@@ -0,0 +1,426 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PageLayoutEngine, readBreakAvoidance } from './PageLayoutEngine';
+import { DeterministicBlockMeasurer } from './BlockMeasurer';
+import { textLength } from './DocumentSelection';
+import type { BlockMeasurement, PaginationResult } from './types';
+
+// Letter page with 1in margins: 864px of content height
+const engine = new PageLayoutEngine();
+
+function block(
+  index: number,
+  height: number,
+  flags: Partial<BlockMeasurement> = {}
+): BlockMeasurement {
+  return {
+    index,
+    height,
+    element: document.createElement('div'),
+    breakBefore: false,
+    breakAfter: false,
+    avoidBreakInside: false,
+    keepWithNext: false,
+    spanColumns: false,
+    footnotes: 0,
+    ...flags,
+  };
+}
+
+describe('PageLayoutEngine.paginate', () => {
+  it('moves a keep-with-next heading onto the page of the block it introduces', () => {
+    const result = engine.paginate([
+      block(0, 800),
+      block(1, 40, { keepWithNext: true }),
+      block(2, 200),
+    ]);
+
+    expect(result.pages.map((p) => p.blockIndices)).toEqual([[0], [1, 2]]);
+  });
+
+  it('leaves the heading in place when the next block can start below it', () => {
+    const result = engine.paginate([
+      block(0, 700),
+      block(1, 40, { keepWithNext: true }),
+      block(2, 300),
+    ]);
+
+    expect(result.pages[0].blockIndices).toEqual([0, 1]);
+  });
+
+  it('requires an unbreakable next block to fit whole', () => {
+    const result = engine.paginate([
+      block(0, 700),
+      block(1, 40, { keepWithNext: true }),
+      block(2, 200, { avoidBreakInside: true }),
+    ]);
+
+    expect(result.pages.map((p) => p.blockIndices)).toEqual([[0], [1, 2]]);
+  });
+
+  it('ignores keep-with-next chains taller than a page', () => {
+    const result = engine.paginate([
+      block(0, 400),
+      block(1, 300, { keepWithNext: true }),
+      block(2, 600, { keepWithNext: true }),
+      block(3, 100),
+    ]);
+
+    expect(result.pages[0].blockIndices).toEqual([0, 1]);
+  });
+});
+
+describe('multi-column pages', () => {
+  // Letter, 1in margins: 864px columns
+  const twoColumns = new PageLayoutEngine({
+    size: 'letter',
+    margins: { top: 96, right: 96, bottom: 96, left: 96 },
+    columns: 2,
+    columnGap: '0.25in',
+  });
+
+  it('narrows the measuring width to one column', () => {
+    expect(twoColumns.getColumnWidth()).toBe((624 - 24) / 2);
+  });
+
+  it('fills column 1, then column 2, before the next page', () => {
+    const result = twoColumns.paginate([
+      block(0, 500),
+      block(1, 300),
+      block(2, 400),
+      block(3, 400),
+      block(4, 100),
+    ]);
+
+    expect(result.pages.map((p) => p.blockIndices)).toEqual([[0, 1, 2, 3], [4]]);
+    expect(result.pages[0].bands).toEqual([{ span: false, columns: [[0, 1], [2, 3]] }]);
+  });
+
+  it('runs column-span: all blocks across the columns', () => {
+    const result = twoColumns.paginate([
+      block(0, 64, { spanColumns: true }),
+      block(1, 500),
+      block(2, 400),
+      block(3, 64, { spanColumns: true }),
+      block(4, 300),
+    ]);
+
+    expect(result.pages[0].bands).toEqual([
+      { span: true, columns: [[0]] },
+      { span: false, columns: [[1], [2]] },
+      { span: true, columns: [[3]] },
+      { span: false, columns: [[4], []] },
+    ]);
+  });
+
+  it('lays single-column pages out without bands', () => {
+    expect(engine.paginate([block(0, 100)]).pages[0].bands).toBeUndefined();
+  });
+});
+
+describe('footnote space', () => {
+  it('moves a block to the next page when its notes no longer fit', () => {
+    // 864px page: 700 + 100 fits, but not with 60px of notes and the separator
+    const result = engine.paginate([block(0, 700), block(1, 100, { footnotes: 60 })]);
+    expect(result.pages.map((p) => p.blockIndices)).toEqual([[0], [1]]);
+  });
+
+  it('reserves the notes of earlier blocks on the page', () => {
+    const result = engine.paginate([
+      block(0, 400, { footnotes: 100 }),
+      block(1, 300),
+      block(2, 100),
+    ]);
+    expect(result.pages.map((p) => p.blockIndices)).toEqual([[0, 1], [2]]);
+  });
+});
+
+describe('header and footer space', () => {
+  it('reserves the measured header and footer height plus a gap', () => {
+    const withChrome = new PageLayoutEngine({
+      size: 'letter',
+      margins: { top: 96, right: 96, bottom: 96, left: 96 },
+      header: 'Acme Corp — {title}',
+      footer: 'Confidential · {page} / {pages}',
+    });
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const spy = vi
+      .spyOn(Element.prototype, 'getBoundingClientRect')
+      .mockImplementation(() => new DOMRect(0, 0, 624, 20));
+
+    withChrome.measureHeaderFooter(container, { title: 'Report' });
+
+    expect(withChrome.getHeaderFooterSpace()).toEqual({ header: 32, footer: 32 });
+    expect(withChrome.getContentAreaHeight()).toBe(864 - 64);
+    expect(container.children).toHaveLength(0);
+
+    spy.mockRestore();
+    container.remove();
+  });
+
+  it('reserves space per page for the variant the page shows', () => {
+    const coverless = new PageLayoutEngine({
+      size: 'letter',
+      margins: { top: 96, right: 96, bottom: 96, left: 96 },
+      header: 'Acme Corp',
+      differentFirstPage: true,
+    });
+    const spy = vi
+      .spyOn(Element.prototype, 'getBoundingClientRect')
+      .mockImplementation(() => new DOMRect(0, 0, 624, 20));
+    coverless.measureHeaderFooter(document.body);
+    spy.mockRestore();
+
+    expect(coverless.getContentAreaHeight(1)).toBe(864);
+    expect(coverless.getContentAreaHeight(2)).toBe(864 - 32);
+  });
+
+  it('reserves nothing without templates', () => {
+    expect(engine.getHeaderFooterSpace()).toEqual({ header: 0, footer: 0 });
+    expect(engine.getContentAreaHeight()).toBe(864);
+  });
+});
+
+describe('page orientation', () => {
+  it('turns preset and custom sizes to the configured orientation', () => {
+    const landscape = new PageLayoutEngine({
+      size: 'a4',
+      orientation: 'landscape',
+      margins: { top: 96, right: 96, bottom: 96, left: 96 },
+    });
+    expect(landscape.getPageDimensions()).toEqual({ width: 1123, height: 794 });
+    expect(landscape.getContentAreaWidth()).toBe(1123 - 192);
+
+    landscape.setConfig({ size: { width: 1000, height: 500 }, orientation: 'portrait' });
+    expect(landscape.getPageDimensions()).toEqual({ width: 500, height: 1000 });
+  });
+});
+
+describe('physical units', () => {
+  it('converts size and margins given in units to pixels', () => {
+    const metric = new PageLayoutEngine({
+      size: { width: '8.5in', height: '11in' },
+      margins: { top: '2.54cm', right: '72pt', bottom: '25.4mm', left: 96 },
+    });
+    expect(metric.getPageDimensions()).toEqual({ width: 816, height: 1056 });
+    expect(metric.getPageMargins()).toEqual({ top: 96, right: 96, bottom: 96, left: 96 });
+    expect(metric.getContentAreaHeight()).toBe(864);
+    expect(metric.getContentAreaWidth()).toBe(624);
+  });
+});
+
+describe('split-aware pagination', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  // jsdom has no layout: rows are stacked 30px apart by hand
+  function mountTable(rows: number): HTMLElement {
+    const wrapper = document.createElement('div');
+    const body = Array.from({ length: rows }, (_, i) => `<tr><td>Row ${i + 1}</td></tr>`).join('');
+    wrapper.innerHTML = `<p>Intro</p><table><tbody>${body}</tbody></table>`;
+    document.body.appendChild(wrapper);
+
+    const table = wrapper.querySelector('table')!;
+    const rects = new Map<Element, DOMRect>([[table, new DOMRect(0, 0, 600, rows * 30)]]);
+    Array.from(table.rows).forEach((row, i) => rects.set(row, new DOMRect(0, i * 30, 600, 30)));
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (this: Element) {
+      return rects.get(this) ?? new DOMRect();
+    });
+    return wrapper;
+  }
+
+  it('splits a block across pages into fragments of the same block', () => {
+    const wrapper = mountTable(40);
+    const [intro, table] = Array.from(wrapper.children) as HTMLElement[];
+    const result = engine.paginate([
+      { ...block(0, 100), element: intro },
+      { ...block(1, 1200), element: table },
+    ]);
+
+    expect(result.pageCount).toBe(2);
+    const [first, second] = result.pages.map((page) => page.fragments!);
+    expect(first.map((f) => [f.blockIndex, f.part])).toEqual([[0, 0], [1, 0]]);
+    expect(second.map((f) => [f.blockIndex, f.part])).toEqual([[1, 1]]);
+    expect(result.pages[1].blockIndices).toEqual([1]);
+
+    // Parts share the split id and continue each other's text offsets
+    expect(first[1].splitId).toBeDefined();
+    expect(second[0].splitId).toBe(first[1].splitId);
+    expect(first[1].startOffset).toBe(0);
+    expect(second[0].startOffset).toBe(first[1].endOffset);
+    expect(second[0].endOffset).toBe(textLength(table));
+  });
+
+  it('describes every page with its number and header / footer space', () => {
+    const result = engine.paginate([block(0, 800), block(1, 800)], 5);
+
+    expect(result.pages.map((p) => [p.pageNumber, p.firstInSection])).toEqual([
+      [5, true],
+      [6, false],
+    ]);
+    expect(result.pages[0].headerFooterSpace).toEqual({ header: 0, footer: 0 });
+  });
+
+  it('paginates a document section by section with document block indices', () => {
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+
+    const result = engine.paginateDocument(
+      container,
+      '<p>One</p><p>Two</p><div data-dopecanvas-section="b"></div><p>Three</p>'
+    );
+
+    expect(result.sections).toHaveLength(2);
+    expect(result.pages.map((p) => [p.section, p.blockIndices])).toEqual([
+      [0, [0, 1]],
+      [1, [2, 3]],
+    ]);
+    expect(engine.getDocumentMeasurements().map((m) => m.index)).toEqual([0, 1, 2, 3]);
+    expect(container.innerHTML).toBe('');
+  });
+});
+
+describe('incremental re-pagination', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  // 300 x 200 pages without margins; 20px lines of 60 characters at 10px
+  const config = {
+    size: { width: 300, height: 200 },
+    margins: { top: 0, right: 0, bottom: 0, left: 0 },
+  };
+  const newEngine = () =>
+    new PageLayoutEngine(config, new DeterministicBlockMeasurer({ fontSize: 10, lineHeight: 2 }));
+
+  function container(): HTMLElement {
+    const el = document.createElement('div');
+    document.body.appendChild(el);
+    return el;
+  }
+
+  /** Blocks of 40px (a 20px line and 10px margins), one with `lines` lines */
+  function documentHTML(count: number, long?: { index: number; lines: number }): string {
+    return Array.from({ length: count }, (_, i) => {
+      const words = long?.index === i ? long.lines * 6 : 1;
+      return `<p>${Array.from({ length: words }, () => 'wordwordw').join(' ')} ${i}</p>`;
+    }).join('');
+  }
+
+  /** What a layout places where, without split ids */
+  function outline(result: PaginationResult) {
+    return result.pages.map((page) => ({
+      pageNumber: page.pageNumber,
+      fragments: page.fragments!.map((f) => [f.blockIndex, f.part, f.startOffset, f.endOffset]),
+    }));
+  }
+
+  it('re-measures only from the edited page until the layout converges', () => {
+    const engine = newEngine();
+    const mc = container();
+    engine.paginateDocument(mc, documentHTML(50));
+
+    const measureHeight = vi.spyOn(engine.getMeasurer(), 'measureHeight');
+    // Block 31, on page 7, grows: the blocks after it move down
+    const edited = documentHTML(50, { index: 31, lines: 2 });
+    const result = engine.repaginateDocument(mc, edited);
+
+    expect(outline(result)).toEqual(outline(newEngine().paginateDocument(container(), edited)));
+    // Far fewer than the 50 blocks of a full layout
+    expect(measureHeight.mock.calls.length).toBeLessThan(10);
+  });
+
+  it('renumbers the reused pages when an edit adds a page', () => {
+    const engine = newEngine();
+    const mc = container();
+    engine.paginateDocument(mc, documentHTML(30));
+
+    const measureHeight = vi.spyOn(engine.getMeasurer(), 'measureHeight');
+    const edited = documentHTML(30, { index: 2, lines: 12 });
+    const result = engine.repaginateDocument(mc, edited);
+    const full = newEngine().paginateDocument(container(), edited);
+
+    expect(result.pageCount).toBeGreaterThan(6);
+    expect(outline(result)).toEqual(outline(full));
+    expect(measureHeight.mock.calls.length).toBeLessThan(15);
+  });
+
+  it('follows inserted and removed blocks', () => {
+    const engine = newEngine();
+    const mc = container();
+    const html = documentHTML(30);
+    engine.paginateDocument(mc, html);
+
+    const inserted = html.replace('<p>', '<p>New block</p><p>');
+    expect(outline(engine.repaginateDocument(mc, inserted))).toEqual(
+      outline(newEngine().paginateDocument(container(), inserted))
+    );
+    expect(outline(engine.repaginateDocument(mc, html))).toEqual(
+      outline(newEngine().paginateDocument(container(), html))
+    );
+  });
+
+  it('pulls blocks back onto the page before when the block opening a page shrinks', () => {
+    const engine = newEngine();
+    const mc = container();
+    // Block 4 is too tall for what is left of page 1 and opens page 2
+    engine.paginateDocument(mc, documentHTML(12, { index: 4, lines: 2 }));
+
+    const edited = documentHTML(12);
+    const result = engine.repaginateDocument(mc, edited);
+    const full = newEngine().paginateDocument(container(), edited);
+
+    expect(result.pages[0].blockIndices).toEqual([0, 1, 2, 3, 4]);
+    expect(outline(result)).toEqual(outline(full));
+  });
+
+  it('pulls blocks back onto the page before when a page break is removed', () => {
+    const engine = newEngine();
+    const mc = container();
+    const html = documentHTML(12);
+    const withBreak = html.replace('<p>wordwordw 2</p>', '<p>wordwordw 2</p><div style="page-break-before: always"></div>');
+    engine.paginateDocument(mc, withBreak);
+
+    const result = engine.repaginateDocument(mc, html);
+    const full = newEngine().paginateDocument(container(), html);
+
+    expect(result.pages[0].blockIndices).toEqual([0, 1, 2, 3, 4]);
+    expect(outline(result)).toEqual(outline(full));
+  });
+
+  it('lays the document out again when its sections change', () => {
+    const engine = newEngine();
+    const mc = container();
+    const html = documentHTML(20);
+    engine.paginateDocument(mc, html);
+
+    const sectioned = html + '<div data-dopecanvas-section="b"></div><p>Appendix</p>';
+    const result = engine.repaginateDocument(mc, sectioned);
+    expect(result.sections).toHaveLength(2);
+    expect(outline(result)).toEqual(outline(newEngine().paginateDocument(container(), sectioned)));
+  });
+});
+
+describe('readBreakAvoidance', () => {
+  it('treats headings as keep-with-next unless their inline style says otherwise', () => {
+    const heading = document.createElement('h2');
+    expect(readBreakAvoidance(heading).keepWithNext).toBe(true);
+
+    heading.style.setProperty('break-after', 'auto');
+    expect(readBreakAvoidance(heading).keepWithNext).toBe(false);
+  });
+
+  it('reads break-inside and break-after avoid from CSS', () => {
+    const callout = document.createElement('div');
+    callout.style.setProperty('page-break-inside', 'avoid');
+    callout.style.setProperty('break-after', 'avoid');
+
+    expect(readBreakAvoidance(callout)).toEqual({
+      avoidBreakInside: true,
+      keepWithNext: true,
+    });
+  });
+});
@@ -3,32 +3,221 @@
 // ============================================================
 // Pure TypeScript class with no React dependency.
 // Takes a container of block elements, measures them, and
-// distributes them across fixed-size pages.
+// distributes them across fixed-size pages, splitting blocks that
+// cross a page boundary (BlockSplitter). This is the one pagination
+// implementation: PagedView, DocumentEngine and headless callers
+// all get the same pages, described as block fragments.
+//
+// Honors CSS fragmentation hints: break-before / break-after: page
+// force page breaks, break-inside: avoid keeps a block whole and
+// break-after: avoid (implicit for headings) keeps a block on the
+// same page as the one that follows it.
+//
+// Running headers and footers are measured once per pagination and
+// their height is reserved at the top / bottom of each page, for the
+// variant (first / even / default) that page shows.
+//
+// Size and margins may be given in physical units ('2.5cm', '1in');
+// they are converted to pixels at 96 DPI before any layout.
+//
+// With `columns` set, blocks are measured at the column width and
+// fill the columns of each page in turn (see ColumnFlow); blocks
+// with `column-span: all` are measured at the full content width.
+//
+// Footnotes referenced by a block are measured with it; their height
+// is reserved at the bottom of the page the block lands on.
+//
+// Heights and split points come from a BlockMeasurer: the browser's
+// layout by default, or a deterministic estimate (jsdom, Node).
+// Document layouts keep block heights in a MeasurementCache, so a
+// block seen again at the same width is not measured again.
+//
+// After an edit, repaginateDocument lays out again only from the
+// page before the one holding the first changed block (so content
+// can move back up), and stops as soon as a page starts with the
+// same block as before; later pages are reused and renumbered.
 // ============================================================
 
 import type {
   PageConfig,
+  PageContent,
   PageDimensions,
-  PageSizeName,
+  PageFragment,
+  PageMargins,
+  PageSection,
   PaginationResult,
   BlockMeasurement,
+  BlockMeasurer,
 } from './types';
 import {
   PAGE_SIZE_PRESETS,
   DEFAULT_PAGE_CONFIG,
 } from './types';
+import type { HeaderFooterFields } from './HeaderFooter';
+import { DomBlockMeasurer } from './BlockMeasurer';
+import { MeasurementCache } from './MeasurementCache';
+import { trySplitBlock, SPLIT_ID_ATTR } from './BlockSplitter';
+import { ColumnFlow } from './ColumnFlow';
+import { textLength } from './DocumentSelection';
+import { createFootnoteMeasurer } from './Footnotes';
+import { splitIntoSections } from './Sections';
+import type { SectionGroup } from './Sections';
+import { getPageSize } from './PageSizes';
+import { toPixels } from './Units';
+import {
+  expandFieldCodes,
+  formatFieldDate,
+  selectHeaderFooter,
+  HEADER_FOOTER_GAP,
+  HEADER_FOOTER_KEYS,
+  HEADER_FOOTER_STYLE,
+} from './HeaderFooter';
+
+/** Header / footer settings copied by setConfig */
+const HEADER_FOOTER_SETTINGS = [
+  'header',
+  'footer',
+  'differentFirstPage',
+  'firstPageHeader',
+  'firstPageFooter',
+  'differentOddEven',
+  'evenPageHeader',
+  'evenPageFooter',
+] as const;
+
+/** Default space between columns: 0.5 inch */
+export const DEFAULT_COLUMN_GAP = 48;
+
+/** Tags that keep with the following block unless their CSS says otherwise */
+const KEEP_WITH_NEXT_TAGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+
+/**
+ * Height of the following block that must fit for keep-with-next when
+ * that block can be split — the same threshold the paginator uses
+ * before it attempts a split.
+ */
+export const KEEP_WITH_NEXT_LEAD = 60;
+
+/** Remaining height (in px) below which a block is moved on rather than split */
+const MIN_SPLIT_SPACE = 60;
+
+/** The measurement fields that pagination decisions depend on */
+export type BlockBreakInfo = Pick<
+  BlockMeasurement,
+  'height' | 'breakBefore' | 'avoidBreakInside' | 'keepWithNext'
+>;
+
+/**
+ * Read the break-avoidance rules of a block from its computed style.
+ * Headings keep with next by default; an inline `break-after` value
+ * on the heading (e.g. `auto`) switches that off.
+ */
+export function readBreakAvoidance(
+  el: HTMLElement,
+  style: CSSStyleDeclaration = window.getComputedStyle(el)
+): Pick<BlockMeasurement, 'avoidBreakInside' | 'keepWithNext'> {
+  const breakInside = style.getPropertyValue('break-inside');
+  const breakAfter = style.getPropertyValue('break-after');
+  const avoidBreakInside =
+    breakInside === 'avoid' ||
+    breakInside === 'avoid-page' ||
+    style.getPropertyValue('page-break-inside') === 'avoid';
+  const keepWithNext =
+    breakAfter === 'avoid' ||
+    breakAfter === 'avoid-page' ||
+    style.getPropertyValue('page-break-after') === 'avoid' ||
+    (KEEP_WITH_NEXT_TAGS.has(el.tagName) &&
+      !el.style.getPropertyValue('break-after') &&
+      !el.style.getPropertyValue('page-break-after'));
+  return { avoidBreakInside, keepWithNext };
+}
+
+/**
+ * Resolve a configuration's size to pixel dimensions, turned to its
+ * orientation when one is set. Unknown preset names fall back to Letter.
+ */
+export function resolvePageDimensions(
+  config: Pick<PageConfig, 'size' | 'orientation'>
+): PageDimensions {
+  const dims =
+    typeof config.size === 'string'
+      ? getPageSize(config.size) ?? PAGE_SIZE_PRESETS.letter
+      : { width: toPixels(config.size.width), height: toPixels(config.size.height) };
+  if (!config.orientation) return dims;
+
+  const landscape = dims.width > dims.height;
+  return landscape === (config.orientation === 'landscape')
+    ? dims
+    : { width: dims.height, height: dims.width };
+}
+
+/** Resolve configured margins (pixels or lengths with units) to pixels */
+export function resolvePageMargins(margins: PageConfig['margins']): PageMargins {
+  return {
+    top: toPixels(margins.top),
+    right: toPixels(margins.right),
+    bottom: toPixels(margins.bottom),
+    left: toPixels(margins.left),
+  };
+}
+
+/** Resolve a configuration's column count and gap (in pixels) */
+export function resolveColumns(
+  config: Pick<PageConfig, 'columns' | 'columnGap'>
+): { count: number; gap: number } {
+  return {
+    count: Math.max(1, Math.floor(config.columns ?? 1)),
+    gap: config.columnGap === undefined ? DEFAULT_COLUMN_GAP : toPixels(config.columnGap),
+  };
+}
 
 export class PageLayoutEngine {
   private config: PageConfig;
+  /** Measured height of each header / footer template */
+  private templateHeights: Map<string, number> = new Map();
+  private measurer: BlockMeasurer;
+  /** Block heights kept across layouts of this engine's documents */
+  private cache: MeasurementCache = new MeasurementCache();
+  /** The last document layout, for repaginateDocument */
+  private lastLayout: LastLayout | null = null;
+  /** Measurements of the blocks paginateDocument last laid out */
+  private documentMeasurements: BlockMeasurement[] = [];
 
-  constructor(config: PageConfig = DEFAULT_PAGE_CONFIG) {
+  /**
+   * @param config    Page configuration
+   * @param measurer  Layout backend for block heights and split points
+   *                  (default: the browser's layout)
+   */
+  constructor(
+    config: PageConfig = DEFAULT_PAGE_CONFIG,
+    measurer: BlockMeasurer = new DomBlockMeasurer()
+  ) {
     this.config = { ...config };
+    this.measurer = measurer;
+    // Pages laid out with dropped heights can't be reused either
+    this.cache.onInvalidate(() => {
+      this.lastLayout = null;
+    });
   }
 
   // ----------------------------------------------------------
   // Config accessors
   // ----------------------------------------------------------
 
+  getMeasurer(): BlockMeasurer {
+    return this.measurer;
+  }
+
+  /** Block heights cached by paginateDocument / repaginateDocument */
+  getMeasurementCache(): MeasurementCache {
+    return this.cache;
+  }
+
+  /** Measurements of the blocks paginateDocument last laid out, in document order */
+  getDocumentMeasurements(): BlockMeasurement[] {
+    return this.documentMeasurements;
+  }
+
   getConfig(): PageConfig {
     return { ...this.config };
   }
@@ -37,29 +226,127 @@ export class PageLayoutEngine {
     if (config.size !== undefined) {
       this.config.size = config.size;
     }
+    if (config.orientation !== undefined) {
+      this.config.orientation = config.orientation;
+    }
     if (config.margins !== undefined) {
       this.config.margins = { ...config.margins };
     }
+    if (config.columns !== undefined) {
+      this.config.columns = config.columns;
+    }
+    if (config.columnGap !== undefined) {
+      this.config.columnGap = config.columnGap;
+    }
+    if (config.widows !== undefined) {
+      this.config.widows = config.widows;
+    }
+    if (config.orphans !== undefined) {
+      this.config.orphans = config.orphans;
+    }
+    if (config.continuedCaption !== undefined) {
+      this.config.continuedCaption = config.continuedCaption;
+    }
+    for (const key of HEADER_FOOTER_SETTINGS) {
+      if (config[key] !== undefined) {
+        Object.assign(this.config, { [key]: config[key] });
+      }
+    }
   }
 
-  /** Resolve page size name to pixel dimensions */
+  /** Resolve page size name and orientation to pixel dimensions */
   getPageDimensions(): PageDimensions {
-    if (typeof this.config.size === 'string') {
-      return PAGE_SIZE_PRESETS[this.config.size as PageSizeName];
-    }
-    return this.config.size;
+    return resolvePageDimensions(this.config);
+  }
+
+  /** Resolve the configured margins to pixels */
+  getPageMargins(): PageMargins {
+    return resolvePageMargins(this.config.margins);
   }
 
-  /** Usable content area height (page height minus top+bottom margins) */
-  getContentAreaHeight(): number {
+  /**
+   * Usable content area height: page height minus top+bottom margins
+   * and the space reserved for the running header and footer of the
+   * given page (default: a regular odd page after the first).
+   */
+  getContentAreaHeight(pageNumber?: number, isFirstPage?: boolean): number {
     const dims = this.getPageDimensions();
-    return dims.height - this.config.margins.top - this.config.margins.bottom;
+    const margins = this.getPageMargins();
+    const { header, footer } = this.getHeaderFooterSpace(pageNumber, isFirstPage);
+    return dims.height - margins.top - margins.bottom - header - footer;
   }
 
   /** Usable content area width (page width minus left+right margins) */
   getContentAreaWidth(): number {
     const dims = this.getPageDimensions();
-    return dims.width - this.config.margins.left - this.config.margins.right;
+    const margins = this.getPageMargins();
+    return dims.width - margins.left - margins.right;
+  }
+
+  /** Number of columns per page and the gap between them */
+  getColumns(): { count: number; gap: number } {
+    return resolveColumns(this.config);
+  }
+
+  /** Width of one column (the content area width with a single column) */
+  getColumnWidth(): number {
+    const { count, gap } = this.getColumns();
+    return (this.getContentAreaWidth() - gap * (count - 1)) / count;
+  }
+
+  // ----------------------------------------------------------
+  // Headers and footers
+  // ----------------------------------------------------------
+
+  /**
+   * Measure the header / footer templates at the content width.
+   * Call before paginating; the heights are reserved on every page.
+   */
+  measureHeaderFooter(
+    container: HTMLElement,
+    fields: Partial<HeaderFooterFields> = {}
+  ): void {
+    const sample: HeaderFooterFields = {
+      page: 1,
+      pages: 1,
+      title: '',
+      date: formatFieldDate(),
+      section: '1',
+      ...fields,
+    };
+
+    this.templateHeights.clear();
+    for (const key of HEADER_FOOTER_KEYS) {
+      const template = this.config[key];
+      if (!template || this.templateHeights.has(template)) continue;
+
+      const el = document.createElement('div');
+      Object.assign(el.style, HEADER_FOOTER_STYLE);
+      el.style.width = `${this.getContentAreaWidth()}px`;
+      el.innerHTML = expandFieldCodes(template, sample);
+      container.appendChild(el);
+      this.templateHeights.set(template, this.measurer.measureHeight(el));
+      el.remove();
+    }
+  }
+
+  /**
+   * Vertical space taken from the content area of a page (default: a
+   * regular odd page after the first) by its header and footer: their
+   * measured height plus the gap to the body, or 0 when empty.
+   * `isFirstPage` defaults to `pageNumber === 1`.
+   */
+  getHeaderFooterSpace(
+    pageNumber?: number,
+    isFirstPage?: boolean
+  ): { header: number; footer: number } {
+    const { header = '', footer = '' } =
+      pageNumber === undefined
+        ? this.config
+        : selectHeaderFooter(this.config, pageNumber, isFirstPage);
+    const space = (template: string) =>
+      template ? (this.templateHeights.get(template) ?? 0) + HEADER_FOOTER_GAP : 0;
+    return { header: space(header), footer: space(footer) };
   }
 
   // ----------------------------------------------------------
@@ -68,41 +355,105 @@ export class PageLayoutEngine {
 
   /**
    * Measure all direct child block elements of the container.
-   * The container should be styled to match the content area width
-   * so that measurements reflect actual rendered heights.
+   * The container should be styled to match the column width (the
+   * content area width with a single column) so that measurements
+   * reflect actual rendered heights.
    */
   measureBlocks(container: HTMLElement): BlockMeasurement[] {
-    const children = Array.from(container.children) as HTMLElement[];
-    const measurements: BlockMeasurement[] = [];
+    const measureFootnotes = createFootnoteMeasurer(
+      container,
+      this.getContentAreaWidth(),
+      this.measurer
+    );
+    return (Array.from(container.children) as HTMLElement[]).map((el, i) =>
+      this.measureBlock(el, i, measureFootnotes)
+    );
+  }
 
-    for (let i = 0; i < children.length; i++) {
-      const el = children[i];
-      const style = window.getComputedStyle(el);
-
-      // Check for CSS break-before / break-after
-      const breakBefore =
-        style.getPropertyValue('break-before') === 'page' ||
-        style.getPropertyValue('page-break-before') === 'always';
-      const breakAfter =
-        style.getPropertyValue('break-after') === 'page' ||
-        style.getPropertyValue('page-break-after') === 'always';
-
-      // Use getBoundingClientRect for precise measurement including margins
-      const rect = el.getBoundingClientRect();
-      const marginTop = parseFloat(style.marginTop) || 0;
-      const marginBottom = parseFloat(style.marginBottom) || 0;
-      const totalHeight = rect.height + marginTop + marginBottom;
-
-      measurements.push({
-        index: i,
-        height: totalHeight,
-        element: el,
-        breakBefore,
-        breakAfter,
-      });
+  /**
+   * Measure one block. With `cached`, the height of a block measured
+   * before (same HTML and width, under the same CSS) is reused.
+   */
+  private measureBlock(
+    el: HTMLElement,
+    index: number,
+    measureFootnotes: (block: Element) => number,
+    cached?: { cache: MeasurementCache; css: string }
+  ): BlockMeasurement {
+    const style = window.getComputedStyle(el);
+
+    // Check for CSS break-before / break-after
+    const breakBefore =
+      style.getPropertyValue('break-before') === 'page' ||
+      style.getPropertyValue('page-break-before') === 'always';
+    const breakAfter =
+      style.getPropertyValue('break-after') === 'page' ||
+      style.getPropertyValue('page-break-after') === 'always';
+
+    const { avoidBreakInside, keepWithNext } = readBreakAvoidance(el, style);
+    const spanColumns = style.getPropertyValue('column-span') === 'all';
+    const fullWidth = spanColumns && this.getColumns().count > 1;
+
+    const width = fullWidth ? this.getContentAreaWidth() : this.getColumnWidth();
+    let height = cached?.cache.get(el.outerHTML, width, cached.css);
+    if (height === undefined) {
+      // Height including margins. A spanning block is measured at the
+      // full width, then put back.
+      const inlineStyle = el.getAttribute('style');
+      if (fullWidth) {
+        el.style.width = `${width}px`;
+      }
+      height = this.measurer.measureHeight(el);
+      if (fullWidth) {
+        if (inlineStyle === null) el.removeAttribute('style');
+        else el.setAttribute('style', inlineStyle);
+      }
+      cached?.cache.set(el, width, cached.css, height);
     }
 
-    return measurements;
+    return {
+      index,
+      height,
+      element: el,
+      breakBefore,
+      breakAfter,
+      avoidBreakInside,
+      keepWithNext,
+      spanColumns,
+      footnotes: measureFootnotes(el),
+    };
+  }
+
+  /**
+   * Height that must fit on the current page for the block at `index`
+   * to stay there. For a keep-with-next block this is the whole chain
+   * of keep-with-next blocks starting at `index`, plus the block that
+   * follows the chain — in full if it must not break, otherwise just
+   * its first lines. Returns the block's own height when the chain
+   * could never fit on one page, since it must break somewhere.
+   */
+  getKeepWithNextHeight(blocks: BlockBreakInfo[], index: number): number {
+    const contentHeight = this.getContentAreaHeight();
+    let height = 0;
+    let i = index;
+
+    while (i < blocks.length) {
+      const block = blocks[i];
+      if (i > index && block.breakBefore) break;
+
+      if (i > index && !block.keepWithNext) {
+        height += block.avoidBreakInside
+          ? block.height
+          : Math.min(block.height, KEEP_WITH_NEXT_LEAD);
+        break;
+      }
+
+      height += block.height;
+      if (!block.keepWithNext) break;
+      i++;
+    }
+
+    return height > contentHeight ? blocks[index].height : height;
   }
 
   // ----------------------------------------------------------
@@ -110,68 +461,575 @@ export class PageLayoutEngine {
   // ----------------------------------------------------------
 
   /**
-   * Paginate: distribute measured blocks across pages.
-   * 
+   * Lay out a document: parse `html` into `container` (a hidden
+   * measurement container, emptied afterwards), group its blocks into
+   * sections, measure each section at its own column width and
+   * paginate it with block splitting. Fragment block indices count
+   * the document's top-level blocks.
+   *
+   * Block heights come from the measurement cache when the block was
+   * measured before. The layout is kept for repaginateDocument.
+   */
+  paginateDocument(
+    container: HTMLElement,
+    html: string,
+    options: { css?: string; title?: string } = {}
+  ): PaginationResult {
+    const { css, title = '' } = options;
+    const wrapper = this.prepareContainer(container, html, css);
+
+    // Keep this engine's header / footer space current
+    this.measureHeaderFooter(container, { title });
+
+    const blocks = Array.from(wrapper.children) as HTMLElement[];
+    const groups = splitIntoSections(blocks, this.getConfig());
+    const cached = { cache: this.cache, css: css ?? '' };
+
+    const pages: PageContent[] = [];
+    const engines: PageLayoutEngine[] = [];
+    const measurements: BlockMeasurement[] = [];
+    let blockOffset = 0;
+    groups.forEach((group, sectionIndex) => {
+      const engine = new PageLayoutEngine(group.section.config, this.measurer);
+      const sectionWrapper = document.createElement('div');
+      sectionWrapper.style.width = `${engine.getColumnWidth()}px`;
+      sectionWrapper.append(...group.blocks);
+      container.appendChild(sectionWrapper);
+
+      // Header / footer height comes off the content area
+      engine.measureHeaderFooter(container, {
+        title,
+        section: group.section.name || String(sectionIndex + 1),
+      });
+
+      const previous = pages[pages.length - 1];
+      const firstPageNumber =
+        group.section.pageNumberStart ?? (previous ? (previous.pageNumber ?? 0) + 1 : 1);
+      const source = engine.blockSource(sectionWrapper, group.blocks, blockOffset, cached);
+      const firstIndex = blockOffset;
+      const { pages: sectionPages } = engine.flowBlocks(
+        {
+          ...source,
+          measure: (i) => (measurements[firstIndex + i] = source.measure(i)),
+        },
+        sectionWrapper,
+        { pageNumber: firstPageNumber, firstInSection: true }
+      );
+
+      // A section without blocks adds no page (unless the document is empty)
+      if (sectionPages.length === 0 && pages.length === 0 && sectionIndex === groups.length - 1) {
+        sectionPages.push(engine.describePage(firstPageNumber, true, { items: [] }));
+      }
+      pages.push(...sectionPages.map((page) => ({ ...page, section: sectionIndex })));
+      engines.push(engine);
+      blockOffset += group.blocks.length;
+    });
+
+    container.innerHTML = '';
+    this.documentMeasurements = measurements;
+    const result = { pages, pageCount: pages.length, sections: groups.map((g) => g.section) };
+    this.lastLayout = {
+      key: layoutKey(this.config, css, title),
+      blocks: blocks.map((el) => el.outerHTML),
+      sectionStarts: sectionStarts(groups),
+      engines,
+      result,
+    };
+    return result;
+  }
+
+  /**
+   * Lay a document out again after an edit, reusing the previous
+   * layout (from paginateDocument or an earlier call, with the same
+   * configuration, CSS and title) where the edit can't have changed
+   * it. Layout restarts on the page before the one the first changed
+   * block starts on; earlier pages are kept. From there blocks are
+   * measured as they are reached — unchanged ones reuse their
+   * measured height — until a fresh page starts with an unchanged
+   * block that also started a page before: from that point the pages are the previous ones, renumbered when
+   * pages were added or removed. Falls back to a full layout when the
+   * sections change or renumbering would flip odd / even headers.
+   */
+  repaginateDocument(
+    container: HTMLElement,
+    html: string,
+    options: { css?: string; title?: string } = {}
+  ): PaginationResult {
+    const { css, title = '' } = options;
+    const last = this.lastLayout;
+    if (!last || last.key !== layoutKey(this.config, css, title)) {
+      return this.paginateDocument(container, html, options);
+    }
+
+    const wrapper = this.prepareContainer(container, html, css);
+    const blocks = Array.from(wrapper.children) as HTMLElement[];
+    const result = this.reflowDocument(container, blocks, css ?? '', last);
+    container.innerHTML = '';
+    return result ?? this.paginateDocument(container, html, options);
+  }
+
+  /** Incremental layout for repaginateDocument; null when a full layout is needed */
+  private reflowDocument(
+    container: HTMLElement,
+    blocks: HTMLElement[],
+    css: string,
+    last: LastLayout
+  ): PaginationResult | null {
+    const blockHTML = blocks.map((el) => el.outerHTML);
+    const previous = last.blocks;
+
+    // Unchanged blocks at the start and at the end of the document
+    const common = Math.min(previous.length, blockHTML.length);
+    let prefix = 0;
+    while (prefix < common && previous[prefix] === blockHTML[prefix]) prefix++;
+    if (prefix === previous.length && prefix === blockHTML.length) return last.result;
+    let suffix = 0;
+    while (
+      suffix < common - prefix &&
+      previous[previous.length - 1 - suffix] === blockHTML[blockHTML.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+    /** Blocks added (or, when negative, removed) by the edit */
+    const delta = blockHTML.length - previous.length;
+    const firstUnchanged = blockHTML.length - suffix;
+
+    // Sections must be as before: same settings, starting at the same blocks
+    const groups = splitIntoSections(blocks, this.getConfig());
+    const sections = groups.map((g) => g.section);
+    const starts = sectionStarts(groups);
+    const expectedStarts = last.sectionStarts.map((start) =>
+      start <= prefix ? start : start >= previous.length - suffix ? start + delta : -1
+    );
+    if (
+      groups.some((g) => g.blocks.length === 0) ||
+      starts.some((start, i) => start !== expectedStarts[i]) ||
+      JSON.stringify(sections) !== JSON.stringify(last.result.sections)
+    ) {
+      return null;
+    }
+
+    // Start a page before the one where the first changed block starts
+    // (in the same section): that block, or a break before it, may have
+    // shrunk or gone and let what follows move back up. Earlier still
+    // if that page begins inside a split block or the page before ends
+    // with a block kept with the next.
+    const oldPages = last.result.pages;
+    let start = oldPages.findIndex((page) => page.blockIndices.some((b) => b >= prefix));
+    if (start === -1) start = oldPages.length - 1;
+    if (start > 0 && oldPages[start - 1].section === oldPages[start].section) start--;
+    while (start > 0 && oldPages[start - 1].section === oldPages[start].section) {
+      const first = oldPages[start].fragments?.[0];
+      const lastIndex = oldPages[start - 1].blockIndices.at(-1);
+      const keepsWithNext = lastIndex !== undefined && readBreakAvoidance(blocks[lastIndex]).keepWithNext;
+      if ((first?.part ?? 0) === 0 && !keepsWithNext) break;
+      start--;
+    }
+
+    const sectionIndex = oldPages[start].section ?? 0;
+    const firstBlock = oldPages[start].fragments?.[0]?.blockIndex ?? starts[sectionIndex];
+    const engine = last.engines[sectionIndex];
+    const sectionWrapper = document.createElement('div');
+    sectionWrapper.style.width = `${engine.getColumnWidth()}px`;
+    container.appendChild(sectionWrapper);
+
+    // Previous pages that start with a whole block, by that block
+    const pageStarting = new Map<number, number>();
+    for (let q = oldPages.length - 1; q > start; q--) {
+      const first = oldPages[q].fragments?.[0];
+      if (first && first.part === 0) pageStarting.set(first.blockIndex, q);
+    }
+
+    let converged = null as { page: number; shift: number } | null;
+    const { pages: reflowed } = engine.flowBlocks(
+      engine.blockSource(
+        sectionWrapper,
+        groups[sectionIndex].blocks.slice(firstBlock - starts[sectionIndex]),
+        firstBlock,
+        { cache: this.cache, css }
+      ),
+      sectionWrapper,
+      {
+        pageNumber: oldPages[start].pageNumber ?? 1,
+        firstInSection: oldPages[start].firstInSection ?? start === 0,
+      },
+      (blockIndex, pageCount) => {
+        if (blockIndex < firstUnchanged) return false;
+        const page = pageStarting.get(blockIndex - delta);
+        if (page === undefined || oldPages[page].section !== sectionIndex) return false;
+        const shift = start + pageCount - page;
+        if (!canRenumber(shift, sections.slice(sectionIndex))) return false;
+        converged = { page, shift };
+        return true;
+      }
+    );
+
+    // Reuse the rest of the previous layout: from the page the layout
+    // converged on, or else from the next section
+    let rest = converged;
+    if (!rest) {
+      const next = oldPages.findIndex((page) => (page.section ?? 0) > sectionIndex);
+      const page = next === -1 ? oldPages.length : next;
+      const shift = start + reflowed.length - page;
+      if (!canRenumber(shift, sections.slice(sectionIndex + 1))) return null;
+      rest = { page, shift };
+    }
+
+    const pages = [
+      ...oldPages.slice(0, start),
+      ...reflowed.map((page) => ({ ...page, section: sectionIndex })),
+      ...renumberPages(oldPages.slice(rest.page), rest.shift, delta, sectionIndex, sections),
+    ];
+    const result = { pages, pageCount: pages.length, sections };
+    this.lastLayout = { ...last, blocks: blockHTML, sectionStarts: starts, result };
+    return result;
+  }
+
+  /**
+   * Paginate: distribute measured blocks across pages, splitting
+   * blocks at page (and column) boundaries. The blocks must still be
+   * in their measurement container: split parts are measured there.
+   * `firstPageNumber` selects the header / footer variant (and so
+   * the content height) of each page.
+   *
    * Algorithm:
    * 1. Walk blocks sequentially
-   * 2. Accumulate height on current page
-   * 3. When a block would overflow, start a new page
+   * 2. Accumulate height in the current column of the current page
+   * 3. When a block would overflow, split it if enough room is left
+   *    (and it may break), else continue in the next column — or on
+   *    a new page after the last column
    * 4. Respect break-before / break-after CSS
-   * 5. If a single block is taller than a page, give it its own page
+   * 5. Move keep-with-next blocks when what follows can't start here
+   * 6. If a single block is taller than a page, split it or give it
+   *    its own column
+   * 7. Place `column-span: all` blocks across the columns
+   * 8. Reserve room at the page bottom for the footnotes of its blocks
    */
-  paginate(measurements: BlockMeasurement[]): PaginationResult {
+  paginate(measurements: BlockMeasurement[], firstPageNumber = 1): PaginationResult {
     if (measurements.length === 0) {
-      return { pages: [{ blockIndices: [] }], pageCount: 1 };
+      return { pages: [this.describePage(firstPageNumber, true, { items: [] })], pageCount: 1 };
     }
 
-    const contentHeight = this.getContentAreaHeight();
-    const pages: { blockIndices: number[] }[] = [];
-    let currentPage: number[] = [];
-    let currentHeight = 0;
+    const { pages } = this.flowBlocks(
+      { count: measurements.length, measure: (i) => measurements[i] },
+      measurements[0].element.parentElement,
+      { pageNumber: firstPageNumber, firstInSection: true }
+    );
+    return { pages, pageCount: pages.length };
+  }
+
+  /**
+   * The pagination loop (see paginate). Blocks are measured as they
+   * are reached. With `converge`, stops before a fresh page that
+   * starts with a whole block for which it returns true (given the
+   * block's index and the number of pages laid out).
+   */
+  private flowBlocks(
+    source: BlockSource,
+    wrapper: HTMLElement | null,
+    start: { pageNumber: number; firstInSection: boolean },
+    converge?: (blockIndex: number, pageCount: number) => boolean
+  ): { pages: PageContent[] } {
+    const pageNumberAt = (pageIndex: number) => start.pageNumber + pageIndex;
+    const isFirstAt = (pageIndex: number) => start.firstInSection && pageIndex === 0;
+    const measureFootnotes = wrapper
+      ? createFootnoteMeasurer(wrapper, this.getContentAreaWidth(), this.measurer)
+      : () => 0;
+
+    const queue: QueuedBlock[] = [];
+    let measured = 0;
+    // Whether the queue has a block at `i`, measuring source blocks up to it
+    const has = (i: number) => {
+      while (queue.length <= i && measured < source.count) {
+        const m = source.measure(measured++);
+        queue.push({ ...m, html: m.element.outerHTML, part: 0, startOffset: 0 });
+      }
+      return i < queue.length;
+    };
+
+    // Measure the second half of a split block and queue it next
+    const queueRemainder = (i: number, block: QueuedBlock, first: PageFragment, secondHTML: string) => {
+      const tempEl = document.createElement('div');
+      tempEl.innerHTML = secondHTML;
+      const newElement = tempEl.firstElementChild as HTMLElement;
+      wrapper?.appendChild(newElement);
+
+      queue.splice(i + 1, 0, {
+        index: block.index,
+        html: newElement.outerHTML,
+        height: this.measurer.measureHeight(newElement),
+        element: newElement,
+        breakBefore: false,
+        breakAfter: block.breakAfter,
+        avoidBreakInside: false,
+        keepWithNext: block.keepWithNext,
+        spanColumns: false,
+        footnotes: measureFootnotes(newElement),
+        part: block.part + 1,
+        startOffset: first.endOffset,
+      });
+    };
+
+    // Each page's content height depends on its header / footer variant
+    const flow = new ColumnFlow<PageFragment>(this.getColumns().count, (pageIndex) =>
+      this.getContentAreaHeight(pageNumberAt(pageIndex), isFirstAt(pageIndex))
+    );
+    // A split's first part leaves room for the notes it references
+    const splitOptions = {
+      widows: this.config.widows,
+      orphans: this.config.orphans,
+      continuedCaption: this.config.continuedCaption,
+      footnoteSpace: (firstHTML: string) => flow.footnoteCost(measureFootnotes(firstHTML)),
+      measurer: this.measurer,
+    };
+
+    // Place the first half of a split in the current column and queue the rest
+    const placeSplit = (i: number, block: QueuedBlock, split: { firstHTML: string; secondHTML: string }, height: number) => {
+      const first = toFragment(block, split.firstHTML, height);
+      flow.place(first, height, measureFootnotes(split.firstHTML));
+      flow.breakColumn();
+      queueRemainder(i, block, first, split.secondHTML);
+    };
 
-    for (let i = 0; i < measurements.length; i++) {
-      const block = measurements[i];
+    for (let i = 0; has(i); i++) {
+      const block = queue[i];
+      const whole = () => toFragment(block, block.html, block.height);
 
       // Force a new page if break-before is set (and current page has content)
-      if (block.breakBefore && currentPage.length > 0) {
-        pages.push({ blockIndices: currentPage });
-        currentPage = [];
-        currentHeight = 0;
+      if (block.breakBefore) {
+        flow.breakPage();
       }
 
-      // Check if adding this block would overflow the current page
-      if (currentHeight + block.height > contentHeight && currentPage.length > 0) {
-        // Current page is full — start a new one
-        pages.push({ blockIndices: currentPage });
-        currentPage = [];
-        currentHeight = 0;
+      // Stop where the layout meets the caller's earlier one again
+      if (
+        converge &&
+        block.part === 0 &&
+        !flow.pageHasContent() &&
+        flow.pageCount() > 0 &&
+        converge(block.index, flow.pageCount())
+      ) {
+        break;
       }
 
-      // Add block to current page
-      currentPage.push(block.index);
-      currentHeight += block.height;
+      // Keep-with-next: move on to the next column when the block and
+      // what it keeps with can't begin in this one
+      if (block.keepWithNext) {
+        for (let j = i; queue[j]?.keepWithNext && has(j + 1); j++);
+      }
+      if (
+        block.keepWithNext &&
+        flow.columnHasContent() &&
+        block.height <= flow.remaining() &&
+        this.getKeepWithNextHeight(queue, i) > flow.remaining()
+      ) {
+        flow.breakColumn();
+      }
+
+      const remainingSpace = flow.remaining();
+
+      if (block.spanColumns && flow.columns > 1) {
+        // Titles and the like run across the columns, kept whole
+        flow.placeSpanning(whole(), block.height, block.footnotes);
+      } else if (flow.fits(block.height, block.footnotes)) {
+        // Block (and its notes) fits entirely in the current column
+        flow.place(whole(), block.height, block.footnotes);
+      } else if (
+        flow.columnHasContent() &&
+        remainingSpace >= MIN_SPLIT_SPACE &&
+        !block.avoidBreakInside
+      ) {
+        // Column has content and enough remaining space to try a split
+        const split = trySplitBlock(block.element, remainingSpace, splitOptions);
+        if (split) {
+          placeSplit(i, block, split, remainingSpace);
+        } else {
+          // Can't split — move to the next column
+          flow.breakColumn();
+          flow.place(whole(), block.height, block.footnotes);
+        }
+      } else if (flow.columnHasContent()) {
+        // Not enough remaining space (or must not break) — move block on
+        flow.breakColumn();
+        flow.place(whole(), block.height, block.footnotes);
+      } else {
+        // Block is first in the column and taller than it — try to split
+        const split = trySplitBlock(block.element, remainingSpace, splitOptions);
+        if (split) {
+          placeSplit(i, block, split, remainingSpace);
+        } else {
+          // Can't split — give it the column (it overflows)
+          flow.place(whole(), block.height, block.footnotes);
+          flow.breakColumn();
+        }
+      }
 
       // Force a new page after this block if break-after is set
       if (block.breakAfter) {
-        pages.push({ blockIndices: currentPage });
-        currentPage = [];
-        currentHeight = 0;
+        flow.breakPage();
       }
     }
 
-    // Push the last page if it has content
-    if (currentPage.length > 0) {
-      pages.push({ blockIndices: currentPage });
-    }
+    const pages = flow
+      .finish()
+      .map((page, pageIndex) => this.describePage(pageNumberAt(pageIndex), isFirstAt(pageIndex), page));
+    return { pages };
+  }
+
+  /**
+   * Source of a section's blocks for flowBlocks: each block is put in
+   * `wrapper` (unless already there) and measured when reached, with
+   * heights from `cached`. `firstIndex` is the document index of the first.
+   */
+  private blockSource(
+    wrapper: HTMLElement,
+    blocks: HTMLElement[],
+    firstIndex: number,
+    cached: { cache: MeasurementCache; css: string }
+  ): BlockSource {
+    const measureFootnotes = createFootnoteMeasurer(wrapper, this.getContentAreaWidth(), this.measurer);
+    return {
+      count: blocks.length,
+      measure: (i) => {
+        const el = blocks[i];
+        if (el.parentElement !== wrapper) wrapper.appendChild(el);
+        return this.measureBlock(el, firstIndex + i, measureFootnotes, cached);
+      },
+    };
+  }
 
-    // Ensure at least one page
-    if (pages.length === 0) {
-      pages.push({ blockIndices: [] });
+  /** Style the hidden measurement container and parse the document into it */
+  private prepareContainer(container: HTMLElement, html: string, css?: string): HTMLElement {
+    container.style.width = `${this.getContentAreaWidth()}px`;
+    container.style.position = 'absolute';
+    container.style.left = '-9999px';
+    container.style.top = '0';
+    container.style.visibility = 'hidden';
+    container.innerHTML = '';
+
+    if (css) {
+      const styleEl = document.createElement('style');
+      styleEl.textContent = css;
+      container.appendChild(styleEl);
     }
 
+    const wrapper = document.createElement('div');
+    wrapper.innerHTML = html;
+    container.appendChild(wrapper);
+    return wrapper;
+  }
+
+  /** Page content for a filled page */
+  private describePage(
+    pageNumber: number,
+    firstInSection: boolean,
+    { items, bands }: { items: PageFragment[]; bands?: PageContent['bands'] }
+  ): PageContent {
     return {
-      pages,
-      pageCount: pages.length,
+      blockIndices: items.map((fragment) => fragment.blockIndex),
+      fragments: items,
+      ...(bands && { bands }),
+      pageNumber,
+      firstInSection,
+      headerFooterSpace: this.getHeaderFooterSpace(pageNumber, firstInSection),
     };
   }
 }
+
+// ----------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------
+
+/** Blocks for the pagination loop, measured in order when reached */
+interface BlockSource {
+  count: number;
+  measure: (i: number) => BlockMeasurement;
+}
+
+/** A document layout kept for incremental re-pagination */
+interface LastLayout {
+  /** Configuration, CSS and title the layout was made with */
+  key: string;
+  /** HTML of the document's top-level blocks */
+  blocks: string[];
+  /** Index of the first block of each section */
+  sectionStarts: number[];
+  /** Engine of each section (header / footer heights measured) */
+  engines: PageLayoutEngine[];
+  result: PaginationResult;
+}
+
+function layoutKey(config: PageConfig, css: string | undefined, title: string): string {
+  return JSON.stringify([config, css ?? '', title]);
+}
+
+function sectionStarts(groups: SectionGroup[]): number[] {
+  let index = 0;
+  return groups.map((group) => {
+    const start = index;
+    index += group.blocks.length;
+    return start;
+  });
+}
+
+/**
+ * Whether pages of `sections` can move by `shift` page numbers and
+ * keep their layout: an odd shift swaps odd / even headers and footers.
+ */
+function canRenumber(shift: number, sections: PageSection[]): boolean {
+  return shift % 2 === 0 || sections.every((section) => !section.config.differentOddEven);
+}
+
+/**
+ * Reuse pages of a previous layout after `delta` blocks were added
+ * before them and `shift` pages before them. Page numbers move until
+ * a later section restarts numbering.
+ */
+function renumberPages(
+  pages: PageContent[],
+  shift: number,
+  delta: number,
+  fromSection: number,
+  sections: PageSection[]
+): PageContent[] {
+  let section = fromSection;
+  let numbering = true;
+  return pages.map((page) => {
+    if (page.section !== section) {
+      section = page.section ?? 0;
+      if (sections[section].pageNumberStart !== undefined) numbering = false;
+    }
+    if (shift === 0 && delta === 0) return page;
+    return {
+      ...page,
+      blockIndices: page.blockIndices.map((index) => index + delta),
+      fragments: page.fragments?.map((f) => ({ ...f, blockIndex: f.blockIndex + delta })),
+      pageNumber: numbering ? (page.pageNumber ?? 0) + shift : page.pageNumber,
+    };
+  });
+}
+
+/** A block waiting to be placed: a measured block or the remainder of a split */
+interface QueuedBlock extends BlockMeasurement {
+  html: string;
+  /** Part number of this piece within its block */
+  part: number;
+  /** Text offset of this piece within its block */
+  startOffset: number;
+}
+
+/** Describe a piece of a queued block placed on a page */
+function toFragment(block: QueuedBlock, html: string, height: number): PageFragment {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const root = template.content.firstElementChild;
+  const splitId = root?.getAttribute(SPLIT_ID_ATTR) ?? undefined;
+  return {
+    blockIndex: block.index,
+    ...(splitId && { splitId }),
+    part: block.part,
+    startOffset: block.startOffset,
+    endOffset: block.startOffset + (root ? textLength(root) : 0),
+    height,
+    html,
+  };
+}
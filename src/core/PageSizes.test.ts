@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getPageSize, listPageSizes, registerPageSize } from './PageSizes';
+import { resolvePageDimensions } from './PageLayoutEngine';
+
+describe('PageSizes', () => {
+  it('includes the built-in presets with labels', () => {
+    expect(getPageSize('a3')).toEqual({ width: 1123, height: 1587 });
+    expect(getPageSize('slide-16x9')).toEqual({ width: 1280, height: 720 });
+    expect(listPageSizes().find((p) => p.name === 'ledger')?.label).toBe('Ledger (17 x 11)');
+  });
+
+  it('registers host presets usable as pageConfig.size', () => {
+    const unregister = registerPageSize('index-card', { width: '5in', height: '3in' }, 'Index card');
+    expect(listPageSizes().at(-1)).toEqual({
+      name: 'index-card',
+      label: 'Index card',
+      width: 480,
+      height: 288,
+    });
+    expect(resolvePageDimensions({ size: 'index-card', orientation: 'portrait' })).toEqual({
+      width: 288,
+      height: 480,
+    });
+
+    unregister();
+    expect(getPageSize('index-card')).toBeUndefined();
+  });
+
+  it('restores a built-in preset when its replacement is removed', () => {
+    const unregister = registerPageSize('a4', { width: 800, height: 1100 });
+    expect(getPageSize('a4')).toEqual({ width: 800, height: 1100 });
+    unregister();
+    expect(getPageSize('a4')).toEqual({ width: 794, height: 1123 });
+  });
+
+  it('falls back to Letter for unknown names', () => {
+    expect(resolvePageDimensions({ size: 'no-such-size' })).toEqual({ width: 816, height: 1056 });
+  });
+});
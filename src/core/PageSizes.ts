@@ -0,0 +1,83 @@
+// ============================================================
+// PageSizes — Named page size presets
+// ============================================================
+// The built-in presets (PAGE_SIZE_PRESETS) plus any registered by
+// the host app, e.g. a label stock or an in-house report format:
+//
+//   registerPageSize('index-card', { width: '5in', height: '3in' }, 'Index card (5 x 3)');
+//
+// Registered names can be used as `pageConfig.size`, in section
+// settings, and appear in the page setup toolbar.
+// ============================================================
+
+import type { PageDimensionLengths, PageDimensions, PageSizeName, Unsubscribe } from './types';
+import { PAGE_SIZE_PRESETS } from './types';
+import { toPixels } from './Units';
+
+/** A named page size, in pixels at 96 DPI */
+export interface PageSizePreset extends PageDimensions {
+  name: string;
+  /** Display label, e.g. "A4 (210 x 297mm)" */
+  label: string;
+}
+
+const BUILT_IN_LABELS: Record<PageSizeName, string> = {
+  letter: 'Letter (8.5 x 11)',
+  a4: 'A4 (210 x 297mm)',
+  legal: 'Legal (8.5 x 14)',
+  a3: 'A3 (297 x 420mm)',
+  a5: 'A5 (148 x 210mm)',
+  b5: 'B5 (176 x 250mm)',
+  tabloid: 'Tabloid (11 x 17)',
+  ledger: 'Ledger (17 x 11)',
+  executive: 'Executive (7.25 x 10.5)',
+  'slide-16x9': 'Slide 16:9',
+  'slide-4x3': 'Slide 4:3',
+  'envelope-10': 'Envelope #10',
+  'envelope-dl': 'Envelope DL',
+  'envelope-c5': 'Envelope C5',
+  'envelope-c6': 'Envelope C6',
+  'envelope-monarch': 'Envelope Monarch',
+};
+
+const presets: Map<string, PageSizePreset> = new Map(
+  (Object.keys(PAGE_SIZE_PRESETS) as PageSizeName[]).map((name) => [
+    name,
+    { name, label: BUILT_IN_LABELS[name], ...PAGE_SIZE_PRESETS[name] },
+  ])
+);
+
+/**
+ * Register a named page size (replacing any preset of that name).
+ * Returns a function that removes it again.
+ */
+export function registerPageSize(
+  name: string,
+  size: PageDimensionLengths,
+  label: string = name
+): Unsubscribe {
+  const preset: PageSizePreset = {
+    name,
+    label,
+    width: toPixels(size.width),
+    height: toPixels(size.height),
+  };
+  const replaced = presets.get(name);
+  presets.set(name, preset);
+  return () => {
+    if (presets.get(name) !== preset) return;
+    if (replaced) presets.set(name, replaced);
+    else presets.delete(name);
+  };
+}
+
+/** Pixel dimensions of a named preset, or undefined if none has that name */
+export function getPageSize(name: string): PageDimensions | undefined {
+  const preset = presets.get(name);
+  return preset && { width: preset.width, height: preset.height };
+}
+
+/** All presets, built-in first, then in registration order */
+export function listPageSizes(): PageSizePreset[] {
+  return [...presets.values()];
+}
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { readSectionBreak, resolveSection, splitIntoSections } from './Sections';
+import { resolvePageDimensions } from './PageLayoutEngine';
+import { DEFAULT_PAGE_CONFIG } from './types';
+import type { PageConfig } from './types';
+
+function mount(html: string): HTMLElement[] {
+  const host = document.createElement('div');
+  host.innerHTML = html;
+  document.body.appendChild(host);
+  return Array.from(host.children) as HTMLElement[];
+}
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+describe('section breaks', () => {
+  it('reads overrides from the marker on top of the named section', () => {
+    const [marker] = mount(
+      '<div data-dopecanvas-section="appendix" data-dopecanvas-section-orientation="landscape"' +
+        ' data-dopecanvas-section-margins="48 72" data-dopecanvas-section-page-start="1"></div>'
+    );
+
+    const { name, overrides } = readSectionBreak(marker, {
+      appendix: { size: 'a4', footer: 'Appendix {page}' },
+    });
+
+    expect(name).toBe('appendix');
+    expect(overrides).toEqual({
+      size: 'a4',
+      footer: 'Appendix {page}',
+      orientation: 'landscape',
+      margins: { top: 48, right: 72, bottom: 48, left: 72 },
+      pageNumberStart: 1,
+    });
+  });
+
+  it('reads column settings from the marker', () => {
+    const [marker] = mount(
+      '<div data-dopecanvas-section="brief" data-dopecanvas-section-columns="2"' +
+        ' data-dopecanvas-section-column-gap="0.5cm"></div>'
+    );
+
+    const { overrides } = readSectionBreak(marker);
+    expect(overrides.columns).toBe(2);
+    expect(overrides.columnGap).toBeCloseTo(18.9, 1);
+  });
+
+  it('applies the section overrides to the document configuration', () => {
+    const section = resolveSection(DEFAULT_PAGE_CONFIG, 'wide', { orientation: 'landscape' });
+    expect(resolvePageDimensions(section.config)).toEqual({ width: 1056, height: 816 });
+    expect(section.config.margins).toEqual(DEFAULT_PAGE_CONFIG.margins);
+  });
+
+  it('groups blocks into sections at markers', () => {
+    const blocks = mount(
+      '<p>Narrative</p><p>More</p>' +
+        '<div data-dopecanvas-section="appendix"></div><table></table>'
+    );
+
+    const groups = splitIntoSections(blocks, DEFAULT_PAGE_CONFIG);
+
+    expect(groups.map((g) => g.section.name)).toEqual(['', 'appendix']);
+    expect(groups.map((g) => g.blocks.length)).toEqual([2, 2]);
+  });
+
+  it('starts sections where the CSS named page changes', () => {
+    const config: PageConfig = {
+      ...DEFAULT_PAGE_CONFIG,
+      sections: { wide: { orientation: 'landscape' } },
+    };
+    const blocks = mount(
+      '<p>Intro</p><table style="page: wide"></table><table style="page: wide"></table><p>Back</p>'
+    );
+
+    const groups = splitIntoSections(blocks, config);
+
+    expect(groups.map((g) => [g.section.name, g.blocks.length])).toEqual([
+      ['', 1],
+      ['wide', 2],
+      ['', 1],
+    ]);
+    expect(groups[1].section.config.orientation).toBe('landscape');
+  });
+
+  it('always returns one section for an empty document', () => {
+    expect(splitIntoSections([], DEFAULT_PAGE_CONFIG)).toHaveLength(1);
+  });
+});
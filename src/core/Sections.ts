@@ -0,0 +1,172 @@
+// ============================================================
+// Sections — Section breaks with per-section page settings
+// ============================================================
+// A document is a run of sections, each starting on a new page with
+// its own size, orientation, margins, columns, header / footer and optional
+// page-number restart. A section starts at:
+//
+//   - a marker block: <div data-dopecanvas-section="appendix"></div>
+//     Settings come from pageConfig.sections["appendix"], overridden
+//     by attributes on the marker:
+//       data-dopecanvas-section-size         a preset name (a4, ledger, ...) | 1056x816 | 297mmx210mm
+//       data-dopecanvas-section-orientation  portrait | landscape
+//       data-dopecanvas-section-margins      CSS shorthand, px or units ("48 72", "2cm 1in")
+//       data-dopecanvas-section-columns      number of columns
+//       data-dopecanvas-section-column-gap   gap between columns, px or units
+//       data-dopecanvas-section-header       header template
+//       data-dopecanvas-section-footer       footer template
+//       data-dopecanvas-section-page-start   restart page numbers here
+//
+//   - a change of the CSS `page` property (named pages): blocks with
+//     `page: wide` form a section using pageConfig.sections["wide"];
+//     blocks after them return to the enclosing section's settings.
+// ============================================================
+
+import type {
+  PageConfig,
+  PageDimensions,
+  PageMargins,
+  PageSection,
+  PageSizeKey,
+  SectionConfig,
+} from './types';
+import { getPageSize } from './PageSizes';
+import { parseLength } from './Units';
+
+/** Attribute marking a section-break block; its value names the section */
+export const SECTION_ATTR = 'data-dopecanvas-section';
+
+const SECTION_SETTING_PREFIX = `${SECTION_ATTR}-`;
+
+/** Blocks of the document grouped by section */
+export interface SectionGroup {
+  section: PageSection;
+  blocks: HTMLElement[];
+}
+
+/** Whether a block is a section-break marker */
+export function isSectionBreak(el: Element): boolean {
+  return el.hasAttribute(SECTION_ATTR);
+}
+
+/**
+ * Read the settings a section-break marker overrides, on top of
+ * the named section in `sections`.
+ */
+export function readSectionBreak(
+  el: HTMLElement,
+  sections: PageConfig['sections'] = {}
+): { name: string; overrides: SectionConfig } {
+  const name = el.getAttribute(SECTION_ATTR) ?? '';
+  const overrides: SectionConfig = { ...sections[name] };
+  const setting = (key: string) => el.getAttribute(SECTION_SETTING_PREFIX + key);
+
+  const size = parseSize(setting('size'));
+  if (size) overrides.size = size;
+
+  const orientation = setting('orientation');
+  if (orientation === 'portrait' || orientation === 'landscape') {
+    overrides.orientation = orientation;
+  }
+
+  const margins = parseMargins(setting('margins'));
+  if (margins) overrides.margins = margins;
+
+  const columns = parseInt(setting('columns') ?? '', 10);
+  if (columns > 0) overrides.columns = columns;
+  const columnGap = parseLength(setting('column-gap') ?? '');
+  if (columnGap !== null) overrides.columnGap = columnGap;
+
+  const header = setting('header');
+  if (header !== null) overrides.header = header;
+  const footer = setting('footer');
+  if (footer !== null) overrides.footer = footer;
+
+  const pageStart = parseInt(setting('page-start') ?? '', 10);
+  if (!isNaN(pageStart)) overrides.pageNumberStart = pageStart;
+
+  return { name, overrides };
+}
+
+/** Apply a section's overrides to the document's page configuration */
+export function resolveSection(base: PageConfig, name: string, overrides: SectionConfig): PageSection {
+  const { pageNumberStart, ...settings } = overrides;
+  const config: PageConfig = {
+    ...base,
+    ...settings,
+    margins: { ...base.margins, ...settings.margins },
+  };
+  delete config.sections;
+  return { name, config, overrides, pageNumberStart };
+}
+
+/**
+ * Group the document's blocks into sections. Blocks must be in the
+ * DOM (the CSS `page` property is read from their computed style).
+ * Always returns at least one section.
+ */
+export function splitIntoSections(blocks: HTMLElement[], base: PageConfig): SectionGroup[] {
+  const sections = base.sections ?? {};
+  const groups: SectionGroup[] = [];
+  // The marker-defined section that named-page runs return to
+  let enclosing = resolveSection(base, '', {});
+  let namedPage: string | null = null;
+  let current: SectionGroup = { section: enclosing, blocks: [] };
+
+  const start = (section: PageSection) => {
+    if (current.blocks.length > 0) groups.push(current);
+    current = { section, blocks: [] };
+  };
+
+  for (const el of blocks) {
+    if (isSectionBreak(el)) {
+      const { name, overrides } = readSectionBreak(el, sections);
+      enclosing = resolveSection(base, name, overrides);
+      namedPage = null;
+      start(enclosing);
+    } else {
+      const page = readNamedPage(el);
+      if (page !== namedPage) {
+        namedPage = page;
+        start(page ? resolveSection(base, page, { ...sections[page] }) : enclosing);
+      }
+    }
+    current.blocks.push(el);
+  }
+
+  if (current.blocks.length > 0 || groups.length === 0) groups.push(current);
+  return groups;
+}
+
+// ----------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------
+
+/** The block's CSS named page, or null for `auto` */
+function readNamedPage(el: HTMLElement): string | null {
+  const page = window.getComputedStyle(el).getPropertyValue('page').trim() ||
+    el.style.getPropertyValue('page').trim();
+  return page && page !== 'auto' ? page : null;
+}
+
+function parseSize(value: string | null): PageSizeKey | PageDimensions | null {
+  if (!value) return null;
+  if (getPageSize(value.trim())) return value.trim();
+  const name = value.trim().toLowerCase();
+  if (getPageSize(name)) return name;
+
+  const match = /^([\d.]+[a-z]*)\s*x\s*([\d.]+[a-z]*)$/.exec(name);
+  if (!match) return null;
+  const width = parseLength(match[1]);
+  const height = parseLength(match[2]);
+  return width !== null && height !== null ? { width, height } : null;
+}
+
+function parseMargins(value: string | null): PageMargins | null {
+  if (!value) return null;
+  const parts = value.trim().split(/\s+/).map(parseLength);
+  if (parts.length === 0 || parts.length > 4 || parts.some((p) => p === null)) return null;
+
+  const [top, right = top, bottom = top, left = right] = parts as number[];
+  return { top, right, bottom, left };
+}
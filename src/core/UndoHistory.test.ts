@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { UndoHistory } from './UndoHistory';
+import type { DocumentSelection } from './types';
+
+function caret(block: number, offset: number): DocumentSelection {
+  return { anchor: { block, offset }, focus: { block, offset } };
+}
+
+describe('UndoHistory', () => {
+  it('stores only the changed block range', () => {
+    const history = new UndoHistory();
+    history.reset(['<p>A</p>', '<p>B</p>', '<p>C</p>']);
+
+    history.record(['<p>A</p>', '<p>B!</p>', '<p>C</p>'], caret(1, 1), caret(1, 2), 'typing', 0);
+
+    const restored = history.undo();
+    expect(restored).toEqual({
+      blocks: ['<p>A</p>', '<p>B</p>', '<p>C</p>'],
+      selection: caret(1, 1),
+    });
+    expect(history.redo()).toEqual({
+      blocks: ['<p>A</p>', '<p>B!</p>', '<p>C</p>'],
+      selection: caret(1, 2),
+    });
+  });
+
+  it('ignores recordings that change nothing', () => {
+    const history = new UndoHistory();
+    history.reset(['<p>A</p>']);
+
+    expect(history.record(['<p>A</p>'], null, null)).toBe(false);
+    expect(history.getState()).toEqual({ canUndo: false, canRedo: false });
+  });
+
+  it('coalesces typing within a word into one step', () => {
+    const history = new UndoHistory();
+    history.reset(['<p>Hel</p>']);
+
+    history.record(['<p>Hell</p>'], caret(0, 3), caret(0, 4), 'typing', 0);
+    history.record(['<p>Hello</p>'], caret(0, 4), caret(0, 5), 'typing', 300);
+
+    expect(history.undo()).toEqual({ blocks: ['<p>Hel</p>'], selection: caret(0, 3) });
+    expect(history.getState().canUndo).toBe(false);
+  });
+
+  it('starts a new step on a pause, a new word or a structural edit', () => {
+    const history = new UndoHistory({ coalesceMs: 1000 });
+    history.reset(['<p>Hi</p>']);
+
+    history.record(['<p>Hi!</p>'], null, null, 'typing', 0);
+    history.record(['<p>Hi!!</p>'], null, null, 'typing', 5000); // pause
+    history.record(['<p>Hi!! you</p>'], null, null, 'typing', 5100); // new word
+    history.record(['<p>Hi!! you</p>', '<hr>'], null, null, 'structure', 5200);
+    history.record(['<p>Hi!! you</p>', '<hr>', '<p></p>'], null, null, 'typing', 5300);
+
+    const undone: string[] = [];
+    let restored = history.undo();
+    while (restored) {
+      undone.push(restored.blocks.join(''));
+      restored = history.undo();
+    }
+    expect(undone).toEqual([
+      '<p>Hi!! you</p><hr>',
+      '<p>Hi!! you</p>',
+      '<p>Hi!!</p>',
+      '<p>Hi!</p>',
+      '<p>Hi</p>',
+    ]);
+  });
+
+  it('drops the oldest steps beyond the entry bound', () => {
+    const history = new UndoHistory({ maxEntries: 2 });
+    history.reset(['<p>0</p>']);
+    for (let i = 1; i <= 4; i++) {
+      history.record([`<p>${i}</p>`], null, null, 'structure', i);
+    }
+
+    expect(history.undo()?.blocks).toEqual(['<p>3</p>']);
+    expect(history.undo()?.blocks).toEqual(['<p>2</p>']);
+    expect(history.undo()).toBeNull();
+  });
+
+  it('drops the oldest steps beyond the memory bound', () => {
+    // Each step holds ~2 KB (two 500-char blocks, 2 bytes per char)
+    const history = new UndoHistory({ maxBytes: 5000 });
+    const block = (c: string) => `<p>${c.repeat(493)}</p>`;
+    history.reset([block('a')]);
+    for (const c of ['b', 'c', 'd', 'e']) {
+      history.record([block(c)], null, null, 'structure');
+    }
+
+    let steps = 0;
+    while (history.undo()) steps++;
+    expect(steps).toBe(2);
+  });
+
+  it('clears the redo stack on a new edit', () => {
+    const history = new UndoHistory();
+    history.reset(['<p>A</p>']);
+    history.record(['<p>B</p>'], null, null, 'structure');
+    history.undo();
+
+    history.record(['<p>C</p>'], null, null, 'structure');
+    expect(history.redo()).toBeNull();
+  });
+});
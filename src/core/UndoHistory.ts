@@ -0,0 +1,244 @@
+// ============================================================
+// UndoHistory — Operation-based undo/redo stacks
+// ============================================================
+// Pure TypeScript class with no DOM dependency.
+// The document is modelled as a list of top-level block HTML
+// strings. Each recorded step stores only the block range that
+// changed (plus the selection around it), so memory grows with
+// the size of the edits rather than the size of the document.
+//
+// Typing coalesces into groups: consecutive typing in the same
+// blocks merges until the user pauses, starts a new word, or a
+// structural edit / undo closes the group.
+// ============================================================
+
+import type { DocumentSelection, HistoryState, UndoOperation } from './types';
+
+export interface UndoHistoryOptions {
+  /** Maximum number of undo steps kept (default 500) */
+  maxEntries?: number;
+  /** Approximate memory bound for the undo stack, in bytes (default 4 MB) */
+  maxBytes?: number;
+  /** Typing within this many ms of the previous step coalesces (default 1000) */
+  coalesceMs?: number;
+}
+
+/** Result of an undo / redo: the new document and where to put the selection */
+export interface HistoryRestore {
+  blocks: string[];
+  selection: DocumentSelection | null;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_BYTES = 4 * 1024 * 1024;
+const DEFAULT_COALESCE_MS = 1000;
+
+export class UndoHistory {
+  private blocks: string[] = [];
+  private undoStack: UndoOperation[] = [];
+  private redoStack: UndoOperation[] = [];
+  private undoBytes = 0;
+  /** When true, the next typing step starts a new group */
+  private groupClosed = true;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly coalesceMs: number;
+
+  constructor(options: UndoHistoryOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.coalesceMs = options.coalesceMs ?? DEFAULT_COALESCE_MS;
+  }
+
+  // ----------------------------------------------------------
+  // State
+  // ----------------------------------------------------------
+
+  /** The document as last recorded */
+  getBlocks(): string[] {
+    return [...this.blocks];
+  }
+
+  getState(): HistoryState {
+    return {
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+    };
+  }
+
+  /** Forget all steps and start from the given document */
+  reset(blocks: string[]): void {
+    this.blocks = [...blocks];
+    this.undoStack = [];
+    this.redoStack = [];
+    this.undoBytes = 0;
+    this.groupClosed = true;
+  }
+
+  /**
+   * Adopt a new serialization of the current document without
+   * recording a step (e.g. after a host re-rendered a restore).
+   */
+  resync(blocks: string[]): void {
+    this.blocks = [...blocks];
+  }
+
+  /** Make the next typing step start a new group */
+  closeGroup(): void {
+    this.groupClosed = true;
+  }
+
+  // ----------------------------------------------------------
+  // Recording
+  // ----------------------------------------------------------
+
+  /**
+   * Record the document's new state as a step. Returns false when
+   * nothing changed since the last recorded state.
+   */
+  record(
+    blocks: string[],
+    selectionBefore: DocumentSelection | null,
+    selectionAfter: DocumentSelection | null,
+    kind: UndoOperation['kind'] = 'typing',
+    timestamp: number = Date.now()
+  ): boolean {
+    const op = diffBlocks(this.blocks, blocks);
+    if (!op) return false;
+
+    const step: UndoOperation = {
+      ...op,
+      selectionBefore,
+      selectionAfter,
+      kind,
+      timestamp,
+    };
+
+    this.blocks = [...blocks];
+    this.redoStack = [];
+
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && this.canCoalesce(last, step)) {
+      this.undoBytes -= operationBytes(last);
+      last.inserted = step.inserted;
+      last.selectionAfter = step.selectionAfter;
+      last.timestamp = step.timestamp;
+      this.undoBytes += operationBytes(last);
+    } else {
+      this.undoStack.push(step);
+      this.undoBytes += operationBytes(step);
+    }
+
+    this.groupClosed = kind !== 'typing';
+    this.enforceBounds();
+    return true;
+  }
+
+  private canCoalesce(last: UndoOperation, step: UndoOperation): boolean {
+    if (this.groupClosed || last.kind !== 'typing' || step.kind !== 'typing') {
+      return false;
+    }
+    if (step.timestamp - last.timestamp > this.coalesceMs) return false;
+
+    // Only merge edits to the very blocks the group already covers
+    if (
+      step.start !== last.start ||
+      step.removed.length !== last.inserted.length ||
+      step.removed.some((html, i) => html !== last.inserted[i])
+    ) {
+      return false;
+    }
+
+    // A new word (typed text starting with whitespace) starts a new group
+    return !startsNewWord(step.removed.join(''), step.inserted.join(''));
+  }
+
+  /** Drop the oldest steps beyond the entry and memory bounds */
+  private enforceBounds(): void {
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > this.maxEntries || this.undoBytes > this.maxBytes)
+    ) {
+      const dropped = this.undoStack.shift()!;
+      this.undoBytes -= operationBytes(dropped);
+    }
+  }
+
+  // ----------------------------------------------------------
+  // Undo / Redo
+  // ----------------------------------------------------------
+
+  undo(): HistoryRestore | null {
+    const op = this.undoStack.pop();
+    if (!op) return null;
+    this.undoBytes -= operationBytes(op);
+
+    this.blocks.splice(op.start, op.inserted.length, ...op.removed);
+    this.redoStack.push(op);
+    this.groupClosed = true;
+    return { blocks: this.getBlocks(), selection: op.selectionBefore };
+  }
+
+  redo(): HistoryRestore | null {
+    const op = this.redoStack.pop();
+    if (!op) return null;
+
+    this.blocks.splice(op.start, op.removed.length, ...op.inserted);
+    this.undoStack.push(op);
+    this.undoBytes += operationBytes(op);
+    this.groupClosed = true;
+    return { blocks: this.getBlocks(), selection: op.selectionAfter };
+  }
+}
+
+// ----------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------
+
+/** Smallest block-range replacement turning `before` into `after` */
+function diffBlocks(
+  before: string[],
+  after: string[]
+): Pick<UndoOperation, 'start' | 'removed' | 'inserted'> | null {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  if (start === before.length && start === after.length) return null;
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  return {
+    start,
+    removed: before.slice(start, endBefore),
+    inserted: after.slice(start, endAfter),
+  };
+}
+
+/** Approximate memory held by a step (UTF-16: 2 bytes per char) */
+function operationBytes(op: UndoOperation): number {
+  let chars = 0;
+  for (const html of op.removed) chars += html.length;
+  for (const html of op.inserted) chars += html.length;
+  return chars * 2;
+}
+
+/** Whether the text added between two versions starts with whitespace */
+function startsNewWord(beforeHTML: string, afterHTML: string): boolean {
+  const before = htmlToText(beforeHTML);
+  const after = htmlToText(afterHTML);
+  if (after.length <= before.length) return false;
+
+  let i = 0;
+  while (i < before.length && before[i] === after[i]) i++;
+  return /\s/.test(after[i] ?? '');
+}
+
+function htmlToText(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ');
+}
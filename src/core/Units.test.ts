@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { formatLength, fromPixels, lengthUnit, parseLength, toPixels } from './Units';
+
+describe('Units', () => {
+  it('reads lengths in each unit as pixels at 96 DPI', () => {
+    expect(parseLength('1in')).toBe(96);
+    expect(parseLength('72pt')).toBe(96);
+    expect(parseLength('2.54cm')).toBeCloseTo(96);
+    expect(parseLength('25.4mm')).toBeCloseTo(96);
+    expect(parseLength('48px')).toBe(48);
+    expect(parseLength('48')).toBe(48);
+    expect(parseLength(48)).toBe(48);
+  });
+
+  it('rejects unreadable lengths', () => {
+    expect(parseLength('2 furlongs')).toBeNull();
+    expect(parseLength('')).toBeNull();
+    expect(toPixels('wide' as never)).toBe(0);
+  });
+
+  it('converts pixels back to a display unit', () => {
+    expect(fromPixels(96, 'cm')).toBe(2.54);
+    expect(fromPixels(96, 'in')).toBe(1);
+    expect(formatLength(2.5, 'cm')).toBe('2.5cm');
+    expect(formatLength(96, 'px')).toBe(96);
+    expect(lengthUnit('2.5cm')).toBe('cm');
+    expect(lengthUnit(96)).toBe('px');
+  });
+});
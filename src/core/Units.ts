@@ -0,0 +1,59 @@
+// ============================================================
+// Units — Physical lengths for page size and margins
+// ============================================================
+// Page lengths are pixels at 96 DPI, or strings with a unit:
+//
+//   '210mm'   '2.5cm'   '1in'   '72pt'   '96px'
+//
+// The layout works in pixels; these helpers convert configured
+// lengths to pixels and back (for display in another unit).
+// ============================================================
+
+import type { PageLength, PageUnit } from './types';
+
+/** Pixels per unit at 96 DPI */
+export const PX_PER_UNIT: Record<PageUnit, number> = {
+  px: 1,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  pt: 96 / 72,
+};
+
+/** Units offered for page lengths, in display order */
+export const PAGE_UNITS: ReadonlyArray<PageUnit> = ['px', 'mm', 'cm', 'in', 'pt'];
+
+const LENGTH_PATTERN = /^(-?\d*\.?\d+)\s*(px|mm|cm|in|pt)?$/;
+
+/**
+ * Convert a length to pixels, or null if it cannot be read.
+ * A bare number (or numeric string) is taken as pixels.
+ */
+export function parseLength(value: PageLength | string): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  const match = LENGTH_PATTERN.exec(value.trim().toLowerCase());
+  if (!match) return null;
+  return parseFloat(match[1]) * PX_PER_UNIT[(match[2] ?? 'px') as PageUnit];
+}
+
+/** Convert a length to pixels; unreadable lengths count as 0 */
+export function toPixels(value: PageLength): number {
+  return parseLength(value) ?? 0;
+}
+
+/** Express a pixel length in `unit`, rounded to `decimals` places */
+export function fromPixels(px: number, unit: PageUnit, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round((px / PX_PER_UNIT[unit]) * factor) / factor;
+}
+
+/** A length of `value` units (pixels stay a plain number) */
+export function formatLength(value: number, unit: PageUnit): PageLength {
+  return unit === 'px' ? value : `${value}${unit}`;
+}
+
+/** The unit a length is written in ('px' for plain numbers) */
+export function lengthUnit(value: PageLength): PageUnit {
+  if (typeof value === 'number') return 'px';
+  return (LENGTH_PATTERN.exec(value.trim().toLowerCase())?.[2] ?? 'px') as PageUnit;
+}
@@ -2,8 +2,36 @@
 // DopeCanvas Core Types
 // ============================================================
 
-/** Named page size presets */
-export type PageSizeName = 'letter' | 'a4' | 'legal';
+/** Built-in page size presets */
+export type PageSizeName =
+  | 'letter'
+  | 'a4'
+  | 'legal'
+  | 'a3'
+  | 'a5'
+  | 'b5'
+  | 'tabloid'
+  | 'ledger'
+  | 'executive'
+  | 'slide-16x9'
+  | 'slide-4x3'
+  | 'envelope-10'
+  | 'envelope-dl'
+  | 'envelope-c5'
+  | 'envelope-c6'
+  | 'envelope-monarch';
+
+/** A page size preset name: built-in, or registered with `registerPageSize` */
+export type PageSizeKey = PageSizeName | (string & {});
+
+/** Units a page length can be written in */
+export type PageUnit = 'px' | 'mm' | 'cm' | 'in' | 'pt';
+
+/**
+ * A page length: pixels at 96 DPI, or a string with a unit
+ * ('210mm', '2.5cm', '1in', '72pt').
+ */
+export type PageLength = number | `${number}${PageUnit}`;
 
 /** Custom page dimensions in pixels */
 export interface PageDimensions {
@@ -19,22 +47,162 @@ export interface PageMargins {
   left: number;
 }
 
+/** Custom page dimensions as configured (pixels or lengths with units) */
+export interface PageDimensionLengths {
+  width: PageLength;
+  height: PageLength;
+}
+
+/** Page margins as configured (pixels or lengths with units) */
+export type PageMarginLengths = Record<keyof PageMargins, PageLength>;
+
+/** Page orientation */
+export type PageOrientation = 'portrait' | 'landscape';
+
 /** Full page configuration */
 export interface PageConfig {
-  size: PageSizeName | PageDimensions;
-  margins: PageMargins;
+  /** Preset name, or width / height such as `{ width: '210mm', height: '99mm' }` */
+  size: PageSizeKey | PageDimensionLengths;
+  /**
+   * Turn `size` to this orientation (default: as given). Most presets
+   * are portrait, so `{ size: 'a4', orientation: 'landscape' }` is
+   * 297 x 210mm; ledger, the slide sizes and envelopes are landscape.
+   */
+  orientation?: PageOrientation;
+  /** Margins in pixels or with units, e.g. `{ top: '2.5cm', ... }` */
+  margins: PageMarginLengths;
+  /**
+   * Number of text columns (default 1). Blocks fill column 1, then
+   * column 2, ... before moving to the next page; a block with CSS
+   * `column-span: all` runs across the columns (e.g. a title).
+   */
+  columns?: number;
+  /** Space between columns (default 0.5in) */
+  columnGap?: PageLength;
+  /**
+   * Minimum lines of a split paragraph carried to the top of the next
+   * page (default 2). A block's CSS `widows` overrides this.
+   */
+  widows?: number;
+  /**
+   * Minimum lines of a split paragraph left at the bottom of a page
+   * (default 2). A block's CSS `orphans` overrides this.
+   */
+  orphans?: number;
+  /**
+   * Caption at the top of the rest of a code listing (`<pre>`) split
+   * across pages, e.g. '(continued)' (default: none). Display only:
+   * it is not part of the document's HTML.
+   */
+  continuedCaption?: string;
+  /**
+   * Running header: HTML template repeated at the top of every page.
+   * Field codes {page}, {pages}, {title}, {date} and {section} are
+   * filled in per page. Its height is taken from the content area.
+   */
+  header?: string;
+  /** Running footer template (same field codes as `header`) */
+  footer?: string;
+  /**
+   * Use `firstPageHeader` / `firstPageFooter` on page 1 (a cover page
+   * without header or page number when those are left empty).
+   */
+  differentFirstPage?: boolean;
+  firstPageHeader?: string;
+  firstPageFooter?: string;
+  /**
+   * Use `evenPageHeader` / `evenPageFooter` on even pages, and
+   * `header` / `footer` on odd pages (mirrored, for bound documents).
+   */
+  differentOddEven?: boolean;
+  evenPageHeader?: string;
+  evenPageFooter?: string;
+  /**
+   * Named section settings, used by section-break blocks
+   * (`<div data-dopecanvas-section="name">`) and CSS named pages
+   * (`page: name`).
+   */
+  sections?: Record<string, SectionConfig>;
+}
+
+/** Page settings a section overrides (the rest come from the PageConfig) */
+export interface SectionConfig
+  extends Partial<Omit<PageConfig, 'sections' | 'widows' | 'orphans' | 'continuedCaption'>> {
+  /** Restart page numbering at this number on the section's first page */
+  pageNumberStart?: number;
+}
+
+/** A section of the paginated document */
+export interface PageSection {
+  /** Section name ('' for the document's default section) */
+  name: string;
+  /** Effective page configuration of the section */
+  config: PageConfig;
+  /** The settings the section overrides */
+  overrides: SectionConfig;
+  /** Page number of the section's first page, when it restarts numbering */
+  pageNumberStart?: number;
+}
+
+/**
+ * A horizontal band of a multi-column page: blocks flowed into the
+ * columns, or one block spanning them.
+ */
+export interface PageBand {
+  /** A `column-span: all` block (the only entry of `columns[0]`) */
+  span: boolean;
+  /** Each column's blocks, top to bottom, as positions in the page's block list */
+  columns: number[][];
+}
+
+/**
+ * A piece of a block placed on a page: the whole block, or one part
+ * of a block split across pages (or columns).
+ */
+export interface PageFragment {
+  /** Index of the source block in the document */
+  blockIndex: number;
+  /** Id shared by all parts of a split block (absent for a whole block) */
+  splitId?: string;
+  /** Part number within the split block (0 for a whole block) */
+  part: number;
+  /** Text offset of the fragment's start within the whole block (as in DocumentSelection) */
+  startOffset: number;
+  /** Text offset just past the fragment's end within the whole block */
+  endOffset: number;
+  /** Height the fragment takes on the page, in pixels */
+  height: number;
+  /** The fragment's HTML */
+  html: string;
 }
 
 /** A single page containing block element indices */
 export interface PageContent {
-  /** Indices into the flat block array */
+  /**
+   * Index of the source block of each fragment on the page (a block
+   * continued in the next column appears once per part)
+   */
   blockIndices: number[];
+  /** The block pieces on the page, in document order */
+  fragments?: PageFragment[];
+  /** Column layout of the page, when the page has several columns */
+  bands?: PageBand[];
+  /** Index into PaginationResult.sections of the page's section */
+  section?: number;
+  /** Displayed page number (honours section page-number restarts) */
+  pageNumber?: number;
+  /** First page of its section (selects the first-page header / footer) */
+  firstInSection?: boolean;
+  /** Space reserved for the page's header / footer, in pixels */
+  headerFooterSpace?: { header: number; footer: number };
 }
 
 /** Result of the pagination algorithm */
 export interface PaginationResult {
   pages: PageContent[];
   pageCount: number;
+  /** Sections of the document, when paginated section by section */
+  sections?: PageSection[];
 }
 
 /** Block measurement info */
@@ -44,17 +212,87 @@ export interface BlockMeasurement {
   element: HTMLElement;
   breakBefore: boolean;
   breakAfter: boolean;
+  /** `break-inside: avoid` — move the block whole instead of splitting it */
+  avoidBreakInside: boolean;
+  /** `break-after: avoid` (or a heading) — keep on the same page as the next block */
+  keepWithNext: boolean;
+  /** `column-span: all` — runs across the page's columns */
+  spanColumns: boolean;
+  /** Height of the footnotes the block references (0 without notes) */
+  footnotes: number;
+}
+
+/** A line of text, in pixels from the top of its block */
+export interface LineBox {
+  top: number;
+  bottom: number;
+}
+
+/** A point in the text of a block */
+export interface TextPosition {
+  node: Text;
+  offset: number;
+}
+
+/**
+ * Geometry source for pagination and block splitting (see
+ * BlockMeasurer.ts). Positions are in pixels from the top of the
+ * block's border box.
+ */
+export interface BlockMeasurer {
+  /** Height an element takes in the flow: its border box plus vertical margins */
+  measureHeight(element: HTMLElement): number;
+  /** Bottom of a descendant of `block`, including its bottom margin */
+  measureBottom(block: HTMLElement, descendant: Element): number;
+  /** The lines of text in `block`, top to bottom */
+  measureLines(block: HTMLElement): LineBox[];
+  /** First text position in `block` on a line starting at or below `y`, or null */
+  positionAt(block: HTMLElement, y: number): TextPosition | null;
+  /** Width of each column of a table, left to right */
+  measureColumnWidths(table: HTMLTableElement): number[];
 }
 
 /** Toolbar context — what kind of element is selected */
 export type ToolbarContext = 'text' | 'table' | 'image' | 'chart' | 'none';
 
-/** Undo/redo snapshot */
-export interface UndoSnapshot {
-  html: string;
+/** A caret / selection end point: text offset within a top-level block */
+export interface BlockSelectionPoint {
+  /** Index of the block in the document */
+  block: number;
+  /** Character offset within the block's text content */
+  offset: number;
+}
+
+/** Document selection that survives re-rendering the blocks */
+export interface DocumentSelection {
+  anchor: BlockSelectionPoint;
+  focus: BlockSelectionPoint;
+}
+
+/**
+ * One undoable step: a range of top-level blocks replaced by others,
+ * plus the selection before and after the step.
+ */
+export interface UndoOperation {
+  /** Index of the first changed block */
+  start: number;
+  /** Blocks replaced by this step (put back on undo) */
+  removed: string[];
+  /** Blocks inserted by this step (put back on redo) */
+  inserted: string[];
+  selectionBefore: DocumentSelection | null;
+  selectionAfter: DocumentSelection | null;
+  /** Typing steps coalesce with adjacent typing in the same blocks */
+  kind: 'typing' | 'structure';
   timestamp: number;
 }
 
+/** Undo/redo availability, emitted whenever it changes */
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
 /** Unsubscribe function returned by event listeners */
 export type Unsubscribe = () => void;
 
@@ -90,9 +328,22 @@ export interface FormattingState {
 
 /** Page sizes in pixels at 96 DPI */
 export const PAGE_SIZE_PRESETS: Record<PageSizeName, PageDimensions> = {
-  letter: { width: 816, height: 1056 },  // 8.5 x 11 inches
-  a4: { width: 794, height: 1123 },      // 210 x 297 mm
-  legal: { width: 816, height: 1344 },   // 8.5 x 14 inches
+  letter: { width: 816, height: 1056 },             // 8.5 x 11 inches
+  a4: { width: 794, height: 1123 },                 // 210 x 297 mm
+  legal: { width: 816, height: 1344 },              // 8.5 x 14 inches
+  a3: { width: 1123, height: 1587 },                // 297 x 420 mm
+  a5: { width: 559, height: 794 },                  // 148 x 210 mm
+  b5: { width: 665, height: 945 },                  // 176 x 250 mm
+  tabloid: { width: 1056, height: 1632 },           // 11 x 17 inches
+  ledger: { width: 1632, height: 1056 },            // 17 x 11 inches
+  executive: { width: 696, height: 1008 },          // 7.25 x 10.5 inches
+  'slide-16x9': { width: 1280, height: 720 },       // 13.33 x 7.5 inches
+  'slide-4x3': { width: 960, height: 720 },         // 10 x 7.5 inches
+  'envelope-10': { width: 912, height: 396 },       // 9.5 x 4.125 inches
+  'envelope-dl': { width: 832, height: 416 },       // 220 x 110 mm
+  'envelope-c5': { width: 866, height: 612 },       // 229 x 162 mm
+  'envelope-c6': { width: 612, height: 431 },       // 162 x 114 mm
+  'envelope-monarch': { width: 720, height: 372 },  // 7.5 x 3.875 inches
 };
 
 /** Default margins: 1 inch (96px) on all sides */
@@ -12,11 +12,55 @@ export { DopeCanvas } from './components/DopeCanvas';
 export type { DopeCanvasProps, DopeCanvasHandle } from './components/DopeCanvas';
 
 // Core engines
-export { PageLayoutEngine } from './core/PageLayoutEngine';
+export {
+  PageLayoutEngine,
+  resolvePageDimensions,
+  resolvePageMargins,
+  resolveColumns,
+} from './core/PageLayoutEngine';
+export { ColumnFlow } from './core/ColumnFlow';
+export type { FlowPage } from './core/ColumnFlow';
+export {
+  FOOTNOTE_ATTR,
+  findFootnotes,
+  numberFootnotes,
+  createFootnoteMeasurer,
+} from './core/Footnotes';
+export type { Footnote } from './core/Footnotes';
 export { EditableManager } from './core/EditableManager';
+export type { EditableHost } from './core/EditableManager';
+export { UndoHistory } from './core/UndoHistory';
+export type { UndoHistoryOptions, HistoryRestore } from './core/UndoHistory';
+export { captureDocumentSelection, restoreDocumentSelection, textLength } from './core/DocumentSelection';
+export type { BlockRoots } from './core/DocumentSelection';
 export { DocumentEngine } from './core/DocumentEngine';
 export { trySplitBlock, recombineSplitBlocks } from './core/BlockSplitter';
-export type { SplitResult } from './core/BlockSplitter';
+export type { SplitResult, SplitOptions } from './core/BlockSplitter';
+export { DomBlockMeasurer, DeterministicBlockMeasurer } from './core/BlockMeasurer';
+export type { DeterministicMeasurerOptions } from './core/BlockMeasurer';
+export { MeasurementCache } from './core/MeasurementCache';
+export type { MeasurementCacheStats } from './core/MeasurementCache';
+export { LayoutWatcher } from './core/LayoutWatcher';
+export { BlockNodes, BLOCK_RELOCATE_EVENT, BLOCK_DISPOSE_EVENT } from './core/BlockNodes';
+export type { BlockRelocateDetail } from './core/BlockNodes';
+export { SECTION_ATTR, splitIntoSections, resolveSection } from './core/Sections';
+export type { SectionGroup } from './core/Sections';
+export { expandFieldCodes, collapseFieldCodes, selectHeaderFooter } from './core/HeaderFooter';
+export { registerPageSize, getPageSize, listPageSizes } from './core/PageSizes';
+export type { PageSizePreset } from './core/PageSizes';
+export {
+  PX_PER_UNIT,
+  PAGE_UNITS,
+  parseLength,
+  toPixels,
+  fromPixels,
+  formatLength,
+} from './core/Units';
+export type {
+  HeaderFooterFields,
+  HeaderFooterOptions,
+  HeaderFooterVariant,
+} from './core/HeaderFooter';
 
 // API
 export { DocumentAPI } from './api/DocumentAPI';
@@ -30,14 +74,31 @@ export { PageSetupToolbar } from './components/Toolbar/PageSetupToolbar';
 export type {
   PageConfig,
   PageSizeName,
+  PageSizeKey,
   PageDimensions,
   PageMargins,
+  PageUnit,
+  PageLength,
+  PageDimensionLengths,
+  PageMarginLengths,
+  PageOrientation,
+  SectionConfig,
+  PageSection,
   PaginationResult,
   PageContent,
+  PageFragment,
+  PageBand,
   BlockMeasurement,
+  BlockMeasurer,
+  LineBox,
+  TextPosition,
   ToolbarContext,
   FormattingState,
   Unsubscribe,
+  DocumentSelection,
+  BlockSelectionPoint,
+  UndoOperation,
+  HistoryState,
 } from './core/types';
 
 export {